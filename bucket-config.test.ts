@@ -0,0 +1,132 @@
+import { assertEquals } from "@std/assert/equals";
+import type { BucketPolicy, CorsRule } from "./bucket-config.ts";
+import { testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+Deno.test({
+  name: "getBucketVersioning()",
+  fn: async () => {
+    await withFakeFetch(() =>
+      new Response(`<?xml version="1.0" encoding="UTF-8"?>
+        <VersioningConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+          <Status>Suspended</Status><MfaDelete>Disabled</MfaDelete>
+        </VersioningConfiguration>`), async (requests) => {
+      assertEquals(await client.getBucketVersioning("my-bucket"), { status: "Suspended", mfaDelete: "Disabled" });
+      assertEquals(requests[0].method, "GET");
+      assertEquals(requests[0].url.pathname, "/my-bucket/");
+      assertEquals(requests[0].url.search, "?versioning");
+    });
+    // A bucket that has never had versioning enabled:
+    await withFakeFetch(() => new Response(`<VersioningConfiguration/>`), async () => {
+      assertEquals(await client.getBucketVersioning("my-bucket"), {});
+    });
+  },
+});
+
+Deno.test({
+  name: "putBucketVersioning()",
+  fn: async () => {
+    await withFakeFetch(() => new Response(null), async (requests) => {
+      await client.putBucketVersioning("my-bucket", { status: "Enabled", mfaDelete: "Enabled" }, {
+        mfa: "arn:aws:iam::123456789012:mfa/user 123456",
+      });
+      assertEquals(requests[0].method, "PUT");
+      assertEquals(requests[0].url.search, "?versioning");
+      assertEquals(
+        requests[0].body,
+        `<VersioningConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Status>Enabled</Status><MfaDelete>Enabled</MfaDelete></VersioningConfiguration>`,
+      );
+      assertEquals(requests[0].headers.get("x-amz-mfa"), "arn:aws:iam::123456789012:mfa/user 123456");
+      // The server requires a checksum of the body:
+      assertEquals(requests[0].headers.get("x-amz-sdk-checksum-algorithm"), "SHA256");
+      assertEquals(requests[0].headers.has("x-amz-checksum-sha256"), true);
+      // ...which is enough, so it doesn't send the Content-MD5 as well:
+      assertEquals(requests[0].headers.has("Content-MD5"), false);
+    });
+  },
+});
+
+Deno.test({
+  name: "getBucketCors(), putBucketCors() and deleteBucketCors()",
+  fn: async () => {
+    const rules: CorsRule[] = [
+      {
+        id: "uploads",
+        allowedOrigins: ["https://app.example.com", "https://*.example.com"],
+        allowedMethods: ["PUT", "POST"],
+        allowedHeaders: ["*"],
+        exposeHeaders: ["ETag", "x-amz-version-id"],
+        maxAgeSeconds: 3000,
+      },
+      { allowedOrigins: ["*"], allowedMethods: ["GET"] },
+    ];
+    let stored = "";
+    await withFakeFetch((request) => {
+      if (request.method === "PUT") {
+        stored = request.body;
+        return new Response(null);
+      }
+      return new Response(stored);
+    }, async (requests) => {
+      await client.putBucketCors("my-bucket", rules);
+      assertEquals(requests[0].url.search, "?cors");
+      assertEquals(requests[0].headers.has("x-amz-checksum-sha256"), true);
+      assertEquals(
+        requests[0].body,
+        `<CORSConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">` +
+          `<CORSRule><ID>uploads</ID><AllowedOrigin>https://app.example.com</AllowedOrigin>` +
+          `<AllowedOrigin>https://*.example.com</AllowedOrigin><AllowedMethod>PUT</AllowedMethod>` +
+          `<AllowedMethod>POST</AllowedMethod><AllowedHeader>*</AllowedHeader><ExposeHeader>ETag</ExposeHeader>` +
+          `<ExposeHeader>x-amz-version-id</ExposeHeader><MaxAgeSeconds>3000</MaxAgeSeconds></CORSRule>` +
+          `<CORSRule><AllowedOrigin>*</AllowedOrigin><AllowedMethod>GET</AllowedMethod></CORSRule>` +
+          `</CORSConfiguration>`,
+      );
+      assertEquals(await client.getBucketCors("my-bucket"), rules);
+    });
+    // A bucket without CORS rules:
+    await withFakeFetch(
+      () => new Response("<Error><Code>NoSuchCORSConfiguration</Code><Message>none</Message></Error>", { status: 404 }),
+      async () => {
+        assertEquals(await client.getBucketCors("my-bucket"), []);
+      },
+    );
+    await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
+      await client.deleteBucketCors("my-bucket");
+      assertEquals(requests[0].method, "DELETE");
+      assertEquals(requests[0].url.search, "?cors");
+    });
+  },
+});
+
+Deno.test({
+  name: "getBucketPolicy(), putBucketPolicy() and deleteBucketPolicy()",
+  fn: async () => {
+    const policy: BucketPolicy = {
+      Version: "2012-10-17",
+      Statement: [
+        { Effect: "Allow", Principal: "*", Action: ["s3:GetObject"], Resource: ["arn:aws:s3:::my-bucket/public/*"] },
+      ],
+    };
+    await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
+      await client.putBucketPolicy("my-bucket", policy);
+      assertEquals(requests[0].method, "PUT");
+      assertEquals(requests[0].url.search, "?policy");
+      assertEquals(JSON.parse(requests[0].body), policy);
+      assertEquals(requests[0].headers.get("Content-Type"), "application/json");
+    });
+    await withFakeFetch(() => new Response(JSON.stringify(policy)), async () => {
+      assertEquals(await client.getBucketPolicy("my-bucket"), policy);
+    });
+    // A bucket without a policy:
+    await withFakeFetch(
+      () => new Response("<Error><Code>NoSuchBucketPolicy</Code><Message>none</Message></Error>", { status: 404 }),
+      async () => {
+        assertEquals(await client.getBucketPolicy("my-bucket"), undefined);
+      },
+    );
+    await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
+      await client.deleteBucketPolicy("my-bucket");
+      assertEquals(requests[0].method, "DELETE");
+      assertEquals(requests[0].url.search, "?policy");
+    });
+  },
+});
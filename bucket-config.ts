@@ -0,0 +1,279 @@
+/**
+ * @module
+ * Reading and changing the configuration of a bucket, such as whether it keeps versions of objects,
+ * which websites can access it (CORS), and who can access it (its policy). These are used by the
+ * bucket configuration methods of `Client`.
+ */
+
+import type { Client } from "./client.ts";
+import * as errors from "./errors.ts";
+import { escapeXml } from "./helpers.ts";
+import { children, childText, parse as parseXML, type Xml } from "./xml-parser.ts";
+
+/**
+ * The versioning configuration of a bucket.
+ * See https://docs.aws.amazon.com/AmazonS3/latest/userguide/Versioning.html
+ */
+export interface BucketVersioning {
+  /** Undefined if versioning has never been enabled on the bucket */
+  status?: "Enabled" | "Suspended";
+  /** Whether deleting versions and changing the versioning state requires multi-factor authentication */
+  mfaDelete?: "Enabled" | "Disabled";
+}
+
+/** Get the versioning configuration of a bucket */
+export async function getBucketVersioning(
+  { client, bucketName, signal }: { client: Client; bucketName: string; signal?: AbortSignal },
+): Promise<BucketVersioning> {
+  // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_GetBucketVersioning.html#API_GetBucketVersioning_ResponseSyntax
+  const root = await getConfig({
+    client,
+    bucketName,
+    subresource: "versioning",
+    rootName: "VersioningConfiguration",
+    signal,
+  });
+  const status = childText(root, "Status");
+  const mfaDelete = childText(root, "MfaDelete");
+  return {
+    ...(status ? { status: status as BucketVersioning["status"] } : {}),
+    ...(mfaDelete ? { mfaDelete: mfaDelete as BucketVersioning["mfaDelete"] } : {}),
+  };
+}
+
+/** Enable or suspend versioning of a bucket */
+export async function putBucketVersioning(
+  { client, bucketName, versioning, mfa, signal }: {
+    client: Client;
+    bucketName: string;
+    versioning: BucketVersioning;
+    mfa?: string;
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  const headers = new Headers();
+  if (mfa) {
+    headers.set("x-amz-mfa", mfa);
+  }
+  const payload = `<VersioningConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">${
+    versioning.status ? `<Status>${versioning.status}</Status>` : ""
+  }${versioning.mfaDelete ? `<MfaDelete>${versioning.mfaDelete}</MfaDelete>` : ""}</VersioningConfiguration>`;
+  await client.makeRequest({
+    method: "PUT",
+    bucketName,
+    objectName: "",
+    query: "versioning",
+    headers,
+    payload,
+    checksumRequired: true,
+    signal,
+  });
+}
+
+/**
+ * A CORS rule, which allows web pages from other origins to make requests to a bucket, e.g. to
+ * upload to it with a presigned URL. See https://docs.aws.amazon.com/AmazonS3/latest/userguide/cors.html
+ */
+export interface CorsRule {
+  /** A unique name for the rule */
+  id?: string;
+  /** The origins that may make requests, e.g. "https://www.example.com", or "*" for any origin */
+  allowedOrigins: string[];
+  allowedMethods: ("GET" | "PUT" | "POST" | "DELETE" | "HEAD")[];
+  /** The headers that requests may include (in the `Access-Control-Request-Headers` of the preflight request) */
+  allowedHeaders?: string[];
+  /** The response headers that the browser lets the page read, e.g. "ETag" */
+  exposeHeaders?: string[];
+  /** How long the browser may cache the response to a preflight request for, in seconds */
+  maxAgeSeconds?: number;
+}
+
+/** Get the CORS rules of a bucket. Returns an empty list if the bucket has no CORS configuration. */
+export async function getBucketCors(
+  { client, bucketName, signal }: { client: Client; bucketName: string; signal?: AbortSignal },
+): Promise<CorsRule[]> {
+  let root: Xml;
+  try {
+    // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_GetBucketCors.html#API_GetBucketCors_ResponseSyntax
+    root = await getConfig({ client, bucketName, subresource: "cors", rootName: "CORSConfiguration", signal });
+  } catch (err) {
+    if (err instanceof errors.ServerError && err.code === "NoSuchCORSConfiguration") {
+      return [];
+    }
+    throw err;
+  }
+  return children(root, "CORSRule").map((ruleElement) => {
+    const texts = (name: string) => children(ruleElement, name).map((c) => c.content ?? "");
+    const id = childText(ruleElement, "ID");
+    const allowedHeaders = texts("AllowedHeader");
+    const exposeHeaders = texts("ExposeHeader");
+    const maxAgeSeconds = childText(ruleElement, "MaxAgeSeconds");
+    return {
+      ...(id ? { id } : {}),
+      allowedOrigins: texts("AllowedOrigin"),
+      allowedMethods: texts("AllowedMethod") as CorsRule["allowedMethods"],
+      ...(allowedHeaders.length ? { allowedHeaders } : {}),
+      ...(exposeHeaders.length ? { exposeHeaders } : {}),
+      ...(maxAgeSeconds ? { maxAgeSeconds: parseInt(maxAgeSeconds, 10) } : {}),
+    };
+  });
+}
+
+/** Replace the CORS rules of a bucket */
+export async function putBucketCors(
+  { client, bucketName, rules, signal }: {
+    client: Client;
+    bucketName: string;
+    rules: readonly CorsRule[];
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  const elements = (name: string, values: readonly (string | number)[] = []) =>
+    values.map((v) => `<${name}>${escapeXml(String(v))}</${name}>`).join("");
+  const payload = `<CORSConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">${
+    rules.map((rule) =>
+      `<CORSRule>${elements("ID", rule.id ? [rule.id] : [])}${elements("AllowedOrigin", rule.allowedOrigins)}${
+        elements("AllowedMethod", rule.allowedMethods)
+      }${elements("AllowedHeader", rule.allowedHeaders)}${elements("ExposeHeader", rule.exposeHeaders)}${
+        elements("MaxAgeSeconds", rule.maxAgeSeconds !== undefined ? [rule.maxAgeSeconds] : [])
+      }</CORSRule>`
+    ).join("")
+  }</CORSConfiguration>`;
+  await client.makeRequest({
+    method: "PUT",
+    bucketName,
+    objectName: "",
+    query: "cors",
+    payload,
+    checksumRequired: true,
+    signal,
+  });
+}
+
+/** Remove the CORS configuration of a bucket */
+export async function deleteBucketCors(
+  { client, bucketName, signal }: { client: Client; bucketName: string; signal?: AbortSignal },
+): Promise<void> {
+  await client.makeRequest({
+    method: "DELETE",
+    bucketName,
+    objectName: "",
+    query: "cors",
+    statusCode: 204,
+    signal,
+  });
+}
+
+/**
+ * A bucket policy, which grants or denies access to a bucket and its objects.
+ * See https://docs.aws.amazon.com/AmazonS3/latest/userguide/bucket-policies.html
+ */
+export interface BucketPolicy {
+  /** Usually "2012-10-17" */
+  Version: string;
+  Id?: string;
+  Statement: BucketPolicyStatement[];
+}
+
+/** A statement of a bucket policy. Only the most common elements are typed here. */
+export interface BucketPolicyStatement {
+  Sid?: string;
+  Effect: "Allow" | "Deny";
+  /** Who the statement applies to, e.g. "*" for everyone, or `{ AWS: ["arn:aws:iam::123456789012:root"] }` */
+  Principal?: "*" | Record<string, string | string[]>;
+  /** e.g. "s3:GetObject" */
+  Action: string | string[];
+  /** e.g. "arn:aws:s3:::my-bucket/public/*" */
+  Resource: string | string[];
+  Condition?: Record<string, Record<string, string | string[]>>;
+  [element: string]: unknown;
+}
+
+/** Get the policy of a bucket. Returns undefined if the bucket has no policy. */
+export async function getBucketPolicy(
+  { client, bucketName, signal }: { client: Client; bucketName: string; signal?: AbortSignal },
+): Promise<BucketPolicy | undefined> {
+  try {
+    const response = await client.makeRequest({
+      method: "GET",
+      bucketName,
+      objectName: "",
+      query: "policy",
+      returnBody: true,
+      signal,
+    });
+    return await response.json();
+  } catch (err) {
+    if (err instanceof errors.ServerError && err.code === "NoSuchBucketPolicy") {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+/** Replace the policy of a bucket */
+export async function putBucketPolicy(
+  { client, bucketName, policy, signal }: {
+    client: Client;
+    bucketName: string;
+    policy: BucketPolicy;
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  await client.makeRequest({
+    method: "PUT",
+    bucketName,
+    objectName: "",
+    query: "policy",
+    headers: new Headers({ "Content-Type": "application/json" }),
+    payload: JSON.stringify(policy),
+    checksumRequired: true,
+    statusCode: 204,
+    signal,
+  });
+}
+
+/** Remove the policy of a bucket */
+export async function deleteBucketPolicy(
+  { client, bucketName, signal }: { client: Client; bucketName: string; signal?: AbortSignal },
+): Promise<void> {
+  await client.makeRequest({
+    method: "DELETE",
+    bucketName,
+    objectName: "",
+    query: "policy",
+    statusCode: 204,
+    signal,
+  });
+}
+
+/**
+ * Get a configuration subresource (e.g. `?versioning`) of a bucket, or of an object if `objectName` is given,
+ * and check that its root element is `rootName`.
+ */
+export async function getConfig(
+  { client, bucketName, objectName = "", versionId, subresource, rootName, signal }: {
+    client: Client;
+    bucketName: string;
+    objectName?: string;
+    versionId?: string;
+    subresource: string;
+    rootName: string;
+    signal?: AbortSignal;
+  },
+): Promise<Xml> {
+  const response = await client.makeRequest({
+    method: "GET",
+    bucketName,
+    objectName,
+    query: versionId ? { [subresource]: "", versionId } : subresource,
+    returnBody: true,
+    signal,
+  });
+  const responseText = await response.text();
+  const root = parseXML(responseText);
+  if (root?.name !== rootName) {
+    throw new Error(`Unexpected response: ${responseText}`);
+  }
+  return root;
+}
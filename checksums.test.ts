@@ -0,0 +1,190 @@
+import { assert } from "@std/assert/assert";
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import {
+  type ChecksumAlgorithm,
+  computeChecksum,
+  contentMd5,
+  createChecksum,
+  verifyResponseChecksum,
+} from "./checksums.ts";
+import * as errors from "./errors.ts";
+import { bin2base64 } from "./helpers.ts";
+import { testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+const encoder = new TextEncoder();
+const hex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+Deno.test({
+  name: "the CRC checksums give the standard check values",
+  fn: async () => {
+    const check = (algorithm: ChecksumAlgorithm) => {
+      const checksum = createChecksum(algorithm);
+      // Split the data, to check that the checksum carries on correctly across updates:
+      checksum.update(encoder.encode("1234"));
+      checksum.update(encoder.encode("56789"));
+      return hex(checksum.digest());
+    };
+    assertEquals(check("CRC32"), "cbf43926");
+    assertEquals(check("CRC32C"), "e3069283");
+    assertEquals(check("CRC64NVME"), "ae8b14860a799888");
+    assertEquals(await computeChecksum("CRC32", encoder.encode("123456789")), "y/Q5Jg==");
+  },
+});
+
+Deno.test({
+  name: "the SHA checksums match crypto.subtle, including around the padding boundaries",
+  fn: async () => {
+    for (const length of [0, 1, 55, 56, 63, 64, 65, 119, 120, 1000]) {
+      const data = new Uint8Array(length).map((_, i) => (i * 31 + 7) & 0xff);
+      for (const [algorithm, subtleName] of [["SHA1", "SHA-1"], ["SHA256", "SHA-256"]] as const) {
+        const expected = new Uint8Array(await crypto.subtle.digest(subtleName, data));
+        const checksum = createChecksum(algorithm);
+        checksum.update(data.subarray(0, length >> 1));
+        checksum.update(data.subarray(length >> 1));
+        assertEquals(hex(checksum.digest()), hex(expected), `${algorithm} of ${length} bytes`);
+        assertEquals(await computeChecksum(algorithm, data), bin2base64(expected));
+      }
+    }
+  },
+});
+
+Deno.test({
+  name: "contentMd5() gives the MD5 test vectors from RFC 1321",
+  fn: () => {
+    const md5Hex = (text: string) =>
+      hex(Uint8Array.from(atob(contentMd5(encoder.encode(text))), (c) => c.charCodeAt(0)));
+    assertEquals(md5Hex(""), "d41d8cd98f00b204e9800998ecf8427e");
+    assertEquals(md5Hex("abc"), "900150983cd24fb0d6963f7d28e17f72");
+    assertEquals(md5Hex("abcdefghijklmnopqrstuvwxyz"), "c3fcd3d76192e4007dfb496cca67e13b");
+    assertEquals(
+      md5Hex("12345678901234567890123456789012345678901234567890123456789012345678901234567890"),
+      "57edf4a22be3c955ac49da2e2107b67a",
+    );
+    assertEquals(contentMd5(encoder.encode("hello")), "XUFAKrxLKna5cZ2REBfFkg==");
+  },
+});
+
+Deno.test({
+  name: "verifyResponseChecksum() checks the body against the checksum header",
+  fn: async () => {
+    const checksum = await computeChecksum("CRC32C", encoder.encode("hello"));
+    const good = verifyResponseChecksum(new Response("hello", { headers: { "x-amz-checksum-crc32c": checksum } }));
+    assertEquals(await good.text(), "hello");
+
+    const corrupted = verifyResponseChecksum(new Response("hellO", { headers: { "x-amz-checksum-crc32c": checksum } }));
+    await assertRejects(() => corrupted.text(), errors.ChecksumMismatchError);
+
+    // A composite checksum of the parts can't be checked against the whole body:
+    const composite = new Response("hello", { headers: { "x-amz-checksum-sha256": "abc=-2" } });
+    assert(verifyResponseChecksum(composite) === composite);
+  },
+});
+
+Deno.test({
+  name: "putObject() sends checksums with single-request uploads",
+  fn: async () => {
+    await withFakeFetch(() => new Response(null, { headers: { etag: `"etag"` } }), async (requests) => {
+      const result = await client.putObject("file.txt", "hello", { checksumAlgorithm: "SHA256" });
+      const expected = await computeChecksum("SHA256", encoder.encode("hello"));
+      assertEquals(requests[0].headers.get("x-amz-checksum-sha256"), expected);
+      assertEquals(result.checksum, expected);
+    });
+  },
+});
+
+Deno.test({
+  name: "putObject() sends checksums with each part and the whole object of a multi-part upload",
+  fn: async () => {
+    await withFakeFetch((request) => {
+      if (request.url.searchParams.has("uploads")) {
+        return new Response(
+          `<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>`,
+        );
+      } else if (request.url.searchParams.has("partNumber")) {
+        return new Response(null, { headers: { etag: `"etag-${request.url.searchParams.get("partNumber")}"` } });
+      }
+      return new Response(`<CompleteMultipartUploadResult><ETag>"final"</ETag></CompleteMultipartUploadResult>`);
+    }, async (requests) => {
+      const partSize = 5 * 1024 * 1024;
+      const data = new Uint8Array(partSize * 2 + 10).map((_, i) => i & 0xff);
+      const result = await client.putObject("big.bin", data, { partSize, checksumAlgorithm: "CRC32" });
+
+      assertEquals(requests[0].headers.get("x-amz-checksum-algorithm"), "CRC32");
+      assertEquals(requests[0].headers.get("x-amz-checksum-type"), "FULL_OBJECT");
+      const partChecksums = await Promise.all(
+        [1, 2, 3].map((n) =>
+          computeChecksum("CRC32", data.subarray((n - 1) * partSize, Math.min(n * partSize, data.length)))
+        ),
+      );
+      // (The parts are uploaded in parallel, so they may be sent in any order.)
+      for (const partRequest of requests.filter((r) => r.url.searchParams.has("partNumber"))) {
+        const partNumber = Number(partRequest.url.searchParams.get("partNumber"));
+        assertEquals(partRequest.headers.get("x-amz-checksum-crc32"), partChecksums[partNumber - 1]);
+      }
+
+      const completeRequest = requests.at(-1)!;
+      assertEquals(completeRequest.url.search, "?uploadId=upload-1");
+      assertEquals(
+        completeRequest.body.match(/<ChecksumCRC32>[^<]+<\/ChecksumCRC32>/g),
+        partChecksums.map((c) => `<ChecksumCRC32>${c}</ChecksumCRC32>`),
+      );
+      const objectChecksum = await computeChecksum("CRC32", data);
+      assertEquals(completeRequest.headers.get("x-amz-checksum-crc32"), objectChecksum);
+      assertEquals(result.checksum, objectChecksum);
+    });
+  },
+});
+
+Deno.test({
+  name: "getObject() can verify the checksum of the object as it's downloaded",
+  fn: async () => {
+    const checksum = await computeChecksum("CRC64NVME", encoder.encode("expected data"));
+    await withFakeFetch(
+      () => new Response("corrupted data", { headers: { "x-amz-checksum-crc64nvme": checksum } }),
+      async (requests) => {
+        const response = await client.getObject("file.txt", { verifyChecksum: true });
+        assertEquals(requests[0].headers.get("x-amz-checksum-mode"), "ENABLED");
+        await assertRejects(() => response.text(), errors.ChecksumMismatchError);
+
+        // Without verifyChecksum, the body isn't checked:
+        assertEquals(await (await client.getObject("file.txt")).text(), "corrupted data");
+        assertEquals(requests[1].headers.has("x-amz-checksum-mode"), false);
+      },
+    );
+  },
+});
+
+Deno.test({
+  name: "putObject() can send the Content-MD5 of the object, or of each part",
+  fn: async () => {
+    await withFakeFetch((request) => {
+      if (request.url.searchParams.has("uploads")) {
+        return new Response(
+          `<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>`,
+        );
+      } else if (request.method === "POST") {
+        return new Response(`<CompleteMultipartUploadResult><ETag>"final"</ETag></CompleteMultipartUploadResult>`);
+      }
+      return new Response(null, { headers: { etag: `"etag"` } });
+    }, async (requests) => {
+      await client.putObject("file.txt", "hello", { integrity: "md5" });
+      assertEquals(requests[0].headers.get("Content-MD5"), "XUFAKrxLKna5cZ2REBfFkg==");
+
+      const partSize = 5 * 1024 * 1024;
+      const data = new Uint8Array(partSize + 10).map((_, i) => i & 0xff);
+      await client.putObject("big.bin", data, { partSize, integrity: "md5" });
+      const partRequests = requests.filter((r) => r.url.searchParams.has("partNumber"));
+      assertEquals(partRequests.length, 2);
+      for (const partRequest of partRequests) {
+        const partNumber = Number(partRequest.url.searchParams.get("partNumber"));
+        const part = data.subarray((partNumber - 1) * partSize, partNumber * partSize);
+        assertEquals(partRequest.headers.get("Content-MD5"), contentMd5(part));
+      }
+
+      // Without the option, there's no Content-MD5:
+      await client.putObject("file.txt", "hello");
+      assertEquals(requests.at(-1)?.headers.has("Content-MD5"), false);
+    });
+  },
+});
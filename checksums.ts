@@ -0,0 +1,408 @@
+/**
+ * @module
+ * The checksums that S3 can use to check the integrity of objects, end to end: the client computes a
+ * checksum of the data it uploads, and the server checks it and stores it with the object, so that
+ * it can be checked again when the object is downloaded.
+ * See https://docs.aws.amazon.com/AmazonS3/latest/userguide/checking-object-integrity.html
+ *
+ * Data that is all in memory, like each part of an upload, is hashed with `crypto.subtle` where it
+ * supports the algorithm. The rest are implemented here, as are incremental versions of SHA-1 and
+ * SHA-256: downloads are checked as they're streamed, which `crypto.subtle` can't do.
+ *
+ * The client only loads this module (with `import()`) when it needs a checksum, so that it doesn't add
+ * to the size of bundles that never use one.
+ */
+
+import * as errors from "./errors.ts";
+import { bin2base64, bin2hex, type Uint8Array_ } from "./helpers.ts";
+
+/** The checksum algorithms that S3 supports */
+export type ChecksumAlgorithm = "CRC32" | "CRC32C" | "CRC64NVME" | "SHA1" | "SHA256";
+
+const checksumAlgorithms: readonly ChecksumAlgorithm[] = ["CRC32", "CRC32C", "CRC64NVME", "SHA1", "SHA256"];
+
+/** A checksum that is computed incrementally, as the data is read */
+export interface Checksum {
+  update(data: Uint8Array): void;
+  /** The checksum of all the data. Call this once, after all of the data has been passed to `update()`. */
+  digest(): Uint8Array;
+}
+
+/** Start computing a checksum */
+export function createChecksum(algorithm: ChecksumAlgorithm): Checksum {
+  switch (algorithm) {
+    case "CRC32":
+      return new Crc32(crc32Table());
+    case "CRC32C":
+      return new Crc32(crc32cTable());
+    case "CRC64NVME":
+      return new Crc64Nvme();
+    case "SHA1":
+      return new Sha1();
+    case "SHA256":
+      return new Sha256();
+    default:
+      throw new errors.InvalidArgumentError(`Unsupported checksum algorithm: ${algorithm}`);
+  }
+}
+
+/** The names of the algorithms that `crypto.subtle` supports */
+const subtleAlgorithms = { SHA1: "SHA-1", SHA256: "SHA-256" } as const;
+
+/** Compute the checksum of some data, encoded in base64 like S3 expects it */
+export async function computeChecksum(algorithm: ChecksumAlgorithm, data: Uint8Array_): Promise<string> {
+  if (algorithm === "SHA1" || algorithm === "SHA256") {
+    return bin2base64(new Uint8Array(await crypto.subtle.digest(subtleAlgorithms[algorithm], data)));
+  }
+  const checksum = createChecksum(algorithm);
+  checksum.update(data);
+  return bin2base64(checksum.digest());
+}
+
+/**
+ * Whether S3 can compute a checksum of the whole object for multi-part uploads that use this
+ * algorithm. For SHA-1 and SHA-256, a multi-part object only has a "composite" checksum: the checksum
+ * of the checksums of its parts, followed by `-` and the number of parts.
+ */
+export function supportsFullObjectChecksum(algorithm: ChecksumAlgorithm): boolean {
+  return algorithm.startsWith("CRC");
+}
+
+/** The header for a checksum, e.g. `x-amz-checksum-crc32` */
+export function checksumHeader(algorithm: ChecksumAlgorithm): string {
+  return `x-amz-checksum-${algorithm.toLowerCase()}`;
+}
+
+/** The XML element for a checksum, e.g. `ChecksumCRC32` */
+export function checksumElement(algorithm: ChecksumAlgorithm): string {
+  return `Checksum${algorithm}`;
+}
+
+/**
+ * Check the body of a response that was requested with `x-amz-checksum-mode: ENABLED` against the
+ * checksum that the server returned with it. The returned response's body fails with a
+ * `ChecksumMismatchError` when it ends, if the data doesn't match.
+ *
+ * The response is returned unchanged if there's no checksum of the whole object to check, e.g. if
+ * the object was uploaded without one, or it only has a composite checksum of its parts.
+ */
+export function verifyResponseChecksum(response: Response): Response {
+  const algorithm = checksumAlgorithms.find((a) => response.headers.has(checksumHeader(a)));
+  const expected = algorithm && response.headers.get(checksumHeader(algorithm));
+  if (!algorithm || !expected || expected.includes("-") || !response.body) {
+    return response;
+  }
+  const checksum = createChecksum(algorithm);
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        checksum.update(chunk);
+        controller.enqueue(chunk);
+      },
+      flush() {
+        const actual = bin2base64(checksum.digest());
+        if (actual !== expected) {
+          throw new errors.ChecksumMismatchError(
+            `The ${algorithm} checksum of the downloaded data (${actual}) doesn't match the object's (${expected}).`,
+          );
+        }
+      },
+    }),
+  );
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * The value of the `Content-MD5` header for some data: its MD5 hash, in base64. Some S3-compatible
+ * servers require this to check the integrity of uploads (and so does S3, for uploads to buckets
+ * with Object Lock, if there's no other checksum). `crypto.subtle` doesn't support MD5.
+ */
+export function contentMd5(data: Uint8Array): string {
+  return bin2base64(md5(data));
+}
+
+/**
+ * The MD5 hash of some data, in hex. This is the ETag that S3 gives an object or part, unless it's
+ * encrypted with SSE-C or SSE-KMS.
+ */
+export function md5Hex(data: Uint8Array): string {
+  return bin2hex(md5(data));
+}
+
+function md5(data: Uint8Array): Uint8Array {
+  const hash = new Md5();
+  hash.update(data);
+  return hash.digest();
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// CRCs (all of them "reflected", with an initial value and final XOR of all ones)
+
+function makeCrc32Table(polynomial: number): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? (c >>> 1) ^ polynomial : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+}
+
+/** A value that is only computed when it's first needed, like the lookup tables below */
+function lazy<T>(compute: () => T): () => T {
+  let value: T | undefined;
+  return () => value ??= compute();
+}
+
+const crc32Table = lazy(() => makeCrc32Table(0xedb88320));
+const crc32cTable = lazy(() => makeCrc32Table(0x82f63b78));
+
+class Crc32 implements Checksum {
+  #crc = 0xffffffff;
+  constructor(private readonly table: Uint32Array) {}
+
+  update(data: Uint8Array) {
+    let crc = this.#crc;
+    for (let i = 0; i < data.length; i++) {
+      crc = this.table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    this.#crc = crc;
+  }
+
+  digest(): Uint8Array {
+    const result = new Uint8Array(4);
+    new DataView(result.buffer).setUint32(0, (this.#crc ^ 0xffffffff) >>> 0);
+    return result;
+  }
+}
+
+/** The CRC-64/NVME table, split into the high and low 32 bits of each entry so we don't need BigInts per byte */
+const crc64Table = lazy(() => {
+  const high = new Uint32Array(256);
+  const low = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = BigInt(n);
+    for (let k = 0; k < 8; k++) {
+      c = c & 1n ? (c >> 1n) ^ 0x9a6c9329ac4bc9b5n : c >> 1n;
+    }
+    high[n] = Number(c >> 32n);
+    low[n] = Number(c & 0xffffffffn);
+  }
+  return [high, low] as const;
+});
+
+class Crc64Nvme implements Checksum {
+  #high = 0xffffffff;
+  #low = 0xffffffff;
+
+  update(data: Uint8Array) {
+    const [crc64High, crc64Low] = crc64Table();
+    let high = this.#high;
+    let low = this.#low;
+    for (let i = 0; i < data.length; i++) {
+      const index = (low ^ data[i]) & 0xff;
+      low = ((low >>> 8) | (high << 24)) ^ crc64Low[index];
+      high = (high >>> 8) ^ crc64High[index];
+    }
+    this.#high = high;
+    this.#low = low;
+  }
+
+  digest(): Uint8Array {
+    const result = new Uint8Array(8);
+    const view = new DataView(result.buffer);
+    view.setUint32(0, (this.#high ^ 0xffffffff) >>> 0);
+    view.setUint32(4, (this.#low ^ 0xffffffff) >>> 0);
+    return result;
+  }
+}
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// SHA-1 and SHA-256 (see FIPS 180-4), and MD5 (see RFC 1321)
+
+/**
+ * The parts of SHA-1, SHA-256 and MD5 that are the same: splitting the data into 64-byte blocks, and
+ * padding it. MD5 is the same apart from being little-endian.
+ */
+abstract class BlockHash implements Checksum {
+  readonly #block = new Uint8Array(64);
+  #blockLength = 0;
+  #totalLength = 0;
+  protected abstract readonly state: Uint32Array;
+  protected readonly littleEndian: boolean = false;
+  protected abstract compress(block: Uint8Array): void;
+
+  update(data: Uint8Array) {
+    let offset = 0;
+    while (offset < data.length) {
+      const length = Math.min(64 - this.#blockLength, data.length - offset);
+      this.#block.set(data.subarray(offset, offset + length), this.#blockLength);
+      this.#blockLength += length;
+      offset += length;
+      if (this.#blockLength === 64) {
+        this.compress(this.#block);
+        this.#blockLength = 0;
+      }
+    }
+    this.#totalLength += data.length;
+  }
+
+  digest(): Uint8Array {
+    // Pad the data with a 1 bit, then zeros, then its length in bits as a 64-bit number:
+    const bitLength = this.#totalLength * 8;
+    const padding = new Uint8Array((this.#blockLength < 56 ? 64 : 128) - this.#blockLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    const [first, second] = this.littleEndian
+      ? [bitLength >>> 0, Math.floor(bitLength / 2 ** 32)]
+      : [Math.floor(bitLength / 2 ** 32), bitLength >>> 0];
+    view.setUint32(padding.length - 8, first, this.littleEndian);
+    view.setUint32(padding.length - 4, second, this.littleEndian);
+    this.update(padding);
+
+    const result = new Uint8Array(this.state.length * 4);
+    const resultView = new DataView(result.buffer);
+    this.state.forEach((word, i) => resultView.setUint32(i * 4, word, this.littleEndian));
+    return result;
+  }
+}
+
+const rotateLeft = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+const rotateRight = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+class Sha1 extends BlockHash {
+  protected readonly state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  readonly #w = new Uint32Array(80);
+
+  protected compress(block: Uint8Array) {
+    const w = this.#w;
+    const view = new DataView(block.buffer, block.byteOffset, 64);
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(i * 4);
+    for (let i = 16; i < 80; i++) w[i] = rotateLeft(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+
+    let [a, b, c, d, e] = this.state;
+    for (let i = 0; i < 80; i++) {
+      const f = i < 20 ? (b & c) | (~b & d) : i < 40 ? b ^ c ^ d : i < 60 ? (b & c) | (b & d) | (c & d) : b ^ c ^ d;
+      const k = i < 20 ? 0x5a827999 : i < 40 ? 0x6ed9eba1 : i < 60 ? 0x8f1bbcdc : 0xca62c1d6;
+      const temp = (rotateLeft(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotateLeft(b, 30);
+      b = a;
+      a = temp;
+    }
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+    this.state[4] += e;
+  }
+}
+
+// deno-fmt-ignore
+const sha256K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+class Sha256 extends BlockHash {
+  // deno-fmt-ignore
+  protected readonly state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  readonly #w = new Uint32Array(64);
+
+  protected compress(block: Uint8Array) {
+    const w = this.#w;
+    const view = new DataView(block.buffer, block.byteOffset, 64);
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(w[i - 15], 7) ^ rotateRight(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotateRight(w[i - 2], 17) ^ rotateRight(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + sha256K[i] + w[i]) | 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+    this.state[4] += e;
+    this.state[5] += f;
+    this.state[6] += g;
+    this.state[7] += h;
+  }
+}
+
+/** How far each step of MD5 rotates by */
+// deno-fmt-ignore
+const md5Shifts = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const md5K = lazy(() => new Uint32Array(64).map((_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32)));
+
+class Md5 extends BlockHash {
+  protected readonly state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  protected override readonly littleEndian = true;
+  readonly #m = new Uint32Array(16);
+
+  protected compress(block: Uint8Array) {
+    const m = this.#m;
+    const k = md5K();
+    const view = new DataView(block.buffer, block.byteOffset, 64);
+    for (let i = 0; i < 16; i++) m[i] = view.getUint32(i * 4, true);
+
+    let [a, b, c, d] = this.state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      f = (f + a + k[i] + m[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + rotateLeft(f, md5Shifts[i])) | 0;
+    }
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+  }
+}
@@ -4,7 +4,9 @@ import { assertRejects } from "@std/assert/rejects";
 import { assertStringIncludes } from "@std/assert/string-includes";
 import { assertThrows } from "@std/assert/throws";
 import { Client } from "./client.ts";
+import type { Credentials } from "./credentials.ts";
 import { S3Errors } from "./mod.ts";
+import { createTestClient, hangingResponse, testClient as client, withFakeFetch } from "./test-helpers.ts";
 
 Deno.test({
   name: "host/port numbers",
@@ -215,96 +217,59 @@ Deno.test({
 Deno.test({
   name: "object operations encode '+' in object names",
   fn: async (t) => {
-    const client = new Client({
-      endPoint: "s3.amazonaws.com",
-      region: "us-east-1",
-      bucket: "test-bucket",
-      accessKey: "test-access-key",
-      secretKey: "test-secret-key",
-    });
+    const client = createTestClient({ endPoint: "s3.amazonaws.com" });
 
     const objectName = "folder/with+sign.txt";
 
     await t.step("deleteObject encodes path", async () => {
-      const originalFetch = globalThis.fetch;
-      const calls: Array<{ url: string; init?: RequestInit }> = [];
-      globalThis.fetch = ((input: RequestInfo, init?: RequestInit): Promise<Response> => {
-        const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
-        calls.push({ url, init });
-        return Promise.resolve(new Response(null, { status: 204 }));
-      }) as typeof globalThis.fetch;
-
-      try {
+      await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
         await client.deleteObject(objectName);
-      } finally {
-        globalThis.fetch = originalFetch;
-      }
 
-      assertEquals(calls.length, 1);
-      const { url, init } = calls[0];
-      assert(url.startsWith("https://s3.amazonaws.com/test-bucket/"));
-      assert(!url.includes("+"));
-      assertStringIncludes(url, "with%2Bsign.txt");
-      assertEquals(init?.method, "DELETE");
+        assertEquals(requests.length, 1);
+        const { url, method } = requests[0];
+        assert(url.href.startsWith("https://s3.amazonaws.com/test-bucket/"));
+        assert(!url.href.includes("+"));
+        assertStringIncludes(url.href, "with%2Bsign.txt");
+        assertEquals(method, "DELETE");
+      });
     });
 
     await t.step("exists encodes path for HEAD", async () => {
-      const originalFetch = globalThis.fetch;
-      const calls: Array<{ url: string; init?: RequestInit }> = [];
-      globalThis.fetch = ((input: RequestInfo, init?: RequestInit): Promise<Response> => {
-        const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
-        calls.push({ url, init });
-        return Promise.resolve(
-          new Response(null, {
-            status: 200,
-            headers: {
-              "content-length": "0",
-              "Last-Modified": new Date("2024-01-01T00:00:00Z").toUTCString(),
-              "ETag": '"etag"',
-            },
-          }),
-        );
-      }) as typeof globalThis.fetch;
-
-      let exists: boolean;
-      try {
-        exists = await client.exists(objectName);
-      } finally {
-        globalThis.fetch = originalFetch;
-      }
-
-      assertEquals(exists, true);
-      assertEquals(calls.length, 1);
-      const { url, init } = calls[0];
-      assert(url.startsWith("https://s3.amazonaws.com/test-bucket/"));
-      assert(!url.includes("+"));
-      assertStringIncludes(url, "with%2Bsign.txt");
-      assertEquals(init?.method, "HEAD");
+      await withFakeFetch(() =>
+        new Response(null, {
+          status: 200,
+          headers: {
+            "content-length": "0",
+            "Last-Modified": new Date("2024-01-01T00:00:00Z").toUTCString(),
+            "ETag": '"etag"',
+          },
+        }), async (requests) => {
+        assertEquals(await client.exists(objectName), true);
+
+        assertEquals(requests.length, 1);
+        const { url, method } = requests[0];
+        assert(url.href.startsWith("https://s3.amazonaws.com/test-bucket/"));
+        assert(!url.href.includes("+"));
+        assertStringIncludes(url.href, "with%2Bsign.txt");
+        assertEquals(method, "HEAD");
+      });
     });
 
     await t.step("getObject encodes path for GET", async () => {
-      const originalFetch = globalThis.fetch;
-      const calls: Array<{ url: string; init?: RequestInit }> = [];
-      globalThis.fetch = ((input: RequestInfo, init?: RequestInit): Promise<Response> => {
-        const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
-        calls.push({ url, init });
-        return Promise.resolve(new Response("payload", { status: 200, headers: { "content-length": "7" } }));
-      }) as typeof globalThis.fetch;
-
-      let response: Response;
-      try {
-        response = await client.getObject(objectName);
-      } finally {
-        globalThis.fetch = originalFetch;
-      }
-
-      assertEquals(await response.text(), "payload");
-      assertEquals(calls.length, 1);
-      const { url, init } = calls[0];
-      assert(url.startsWith("https://s3.amazonaws.com/test-bucket/"));
-      assert(!url.includes("+"));
-      assertStringIncludes(url, "with%2Bsign.txt");
-      assertEquals(init?.method, "GET");
+      await withFakeFetch(
+        () => new Response("payload", { status: 200, headers: { "content-length": "7" } }),
+        async (requests) => {
+          const response = await client.getObject(objectName);
+
+          assertEquals(await response.text(), "payload");
+          assertEquals(requests.length, 1);
+          const { url, method } = requests[0];
+          assert(url.href.startsWith("https://s3.amazonaws.com/test-bucket/"));
+          assert(!url.href.includes("+"));
+          assertStringIncludes(url.href, "with%2Bsign.txt");
+          assertEquals(method, "GET");
+        },
+      );
     });
   },
 });
@@ -399,7 +364,7 @@ Deno.test({
 Deno.test({
   name: "makeRequest() releases the response body when returnBody is not set",
   fn: async () => {
-    const client = new Client({ endPoint: "https://s3.example.com", region: "auto", bucket: "test-bucket" });
+    const client = createTestClient({ region: "auto" });
 
     // A multi-chunk response body that tells us how it was disposed of:
     let cancelled = false;
@@ -415,17 +380,370 @@ Deno.test({
       },
     });
 
-    const originalFetch = globalThis.fetch;
-    globalThis.fetch = (() => Promise.resolve(new Response(body, { status: 200 }))) as typeof globalThis.fetch;
-    let response: Response;
-    try {
-      response = await client.makeRequest({ method: "GET", objectName: "file.txt" });
-    } finally {
-      globalThis.fetch = originalFetch;
-    }
+    await withFakeFetch(() => new Response(body, { status: 200 }), async () => {
+      const response = await client.makeRequest({ method: "GET", objectName: "file.txt" });
+
+      // The body must be fully disposed of, not just read one chunk deep and abandoned:
+      assert(cancelled, "response body should have been cancelled");
+      assert(response.bodyUsed, "response body should be marked as used");
+    });
+  },
+});
+
+Deno.test({
+  name: "a credential provider is used to sign requests, and is cached until shortly before expiry",
+  fn: async () => {
+    let providerCalls = 0;
+    let latest: Credentials | undefined;
+    const client = createTestClient({
+      credentials: () => {
+        providerCalls++;
+        latest = {
+          accessKey: `ASIA_KEY_${providerCalls}`,
+          secretKey: "secret",
+          sessionToken: `token-${providerCalls}`,
+          expiration: new Date(Date.now() + 60 * 60 * 1000),
+        };
+        return Promise.resolve(latest);
+      },
+    });
+
+    await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
+      // Several requests at once only call the provider once:
+      await Promise.all([client.deleteObject("a.txt"), client.deleteObject("b.txt")]);
+      await client.deleteObject("c.txt");
+      assertEquals(providerCalls, 1);
+      for (const { headers } of requests) {
+        assertStringIncludes(headers.get("authorization") ?? "", "Credential=ASIA_KEY_1/");
+        assertEquals(headers.get("x-amz-security-token"), "token-1");
+      }
+
+      // Once the credentials are about to expire, they get refreshed:
+      latest!.expiration = new Date(Date.now() + 60 * 1000);
+      await client.deleteObject("d.txt");
+      assertEquals(providerCalls, 2);
+      assertStringIncludes(requests[3].headers.get("authorization") ?? "", "Credential=ASIA_KEY_2/");
+    });
+
+    // Presigned URLs use the provider too:
+    const presignedUrl = new URL(await client.getPresignedUrl("GET", "file.txt"));
+    assertEquals(presignedUrl.searchParams.get("X-Amz-Security-Token"), "token-2");
+    const { fields } = await client.presignedPostObject("file.txt");
+    assertEquals(fields["X-Amz-Security-Token"], "token-2");
+  },
+});
+
+Deno.test({
+  name: "a failed credential provider call is retried on the next request",
+  fn: async () => {
+    let fail = true;
+    const client = createTestClient({
+      credentials: () =>
+        fail ? Promise.reject(new Error("provider is down")) : Promise.resolve({ accessKey: "k", secretKey: "s" }),
+    });
+    await assertRejects(() => client.getPresignedUrl("GET", "file.txt"), Error, "provider is down");
+    fail = false;
+    assertStringIncludes(await client.getPresignedUrl("GET", "file.txt"), "X-Amz-Credential=k%2F");
+  },
+});
+
+Deno.test({
+  name: "credentials cannot be combined with a static access key",
+  fn: () => {
+    assertThrows(
+      () =>
+        new Client({
+          endPoint: "https://s3.example.com",
+          region: "us-east-1",
+          accessKey: "k",
+          secretKey: "s",
+          credentials: () => Promise.resolve({ accessKey: "k", secretKey: "s" }),
+        }),
+      S3Errors.InvalidArgumentError,
+    );
+  },
+});
+
+/** An S3 error response body, as XML */
+const errorXml = (code: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code} happened</Message></Error>`;
+
+Deno.test({
+  name: "makeRequest retries temporary failures, signing each attempt again",
+  fn: async (t) => {
+    const client = createTestClient({ retry: { baseDelayMs: 1 } });
+
+    await t.step("503 SlowDown, then a network error, then success", async () => {
+      const responses = [
+        () => new Response(errorXml("SlowDown"), { status: 503 }),
+        () => Promise.reject(new TypeError("connection reset")),
+        () => new Response(null, { status: 204 }),
+      ];
+      await withFakeFetch(() => responses.shift()!(), async (requests) => {
+        await client.deleteObject("file.txt");
+        assertEquals(requests.length, 3);
+        for (const { headers } of requests) {
+          assertStringIncludes(headers.get("authorization") ?? "", "Credential=AKIA_TEST/");
+        }
+      });
+    });
+
+    await t.step("gives up after maxAttempts", async () => {
+      await withFakeFetch(() => new Response(errorXml("InternalError"), { status: 500 }), async (requests) => {
+        const err = await assertRejects(() => client.deleteObject("file.txt"), S3Errors.ServerError);
+        assertEquals(err.code, "InternalError");
+        assertEquals(requests.length, 3);
+      });
+      await withFakeFetch(() => Promise.reject(new TypeError("connection reset")), async (requests) => {
+        const err = await assertRejects(() => client.deleteObject("file.txt"), S3Errors.NetworkError);
+        assertEquals((err.cause as Error).message, "connection reset");
+        assertEquals(requests.length, 3);
+      });
+    });
+
+    await t.step("doesn't retry other errors", async () => {
+      await withFakeFetch(() => new Response(errorXml("AccessDenied"), { status: 403 }), async (requests) => {
+        await assertRejects(() => client.deleteObject("file.txt"), S3Errors.ServerError, "AccessDenied happened");
+        assertEquals(requests.length, 1);
+      });
+    });
+
+    await t.step("doesn't retry a TypeError that doesn't come from fetch()", async () => {
+      let providerCalls = 0;
+      const buggy = createTestClient({
+        retry: { baseDelayMs: 1 },
+        credentials: () => {
+          providerCalls++;
+          return Promise.reject(new TypeError("Cannot read properties of undefined"));
+        },
+      });
+      await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
+        await assertRejects(() => buggy.deleteObject("file.txt"), TypeError, "Cannot read properties");
+        assertEquals(providerCalls, 1);
+        assertEquals(requests.length, 0);
+      });
+    });
+  },
+});
+
+Deno.test({
+  name: "retry options that are undefined keep their default values",
+  fn: async () => {
+    const client = createTestClient({ retry: { maxAttempts: undefined, baseDelayMs: 1, jitter: undefined } });
+    await withFakeFetch(() => new Response(errorXml("ServiceUnavailable"), { status: 503 }), async (requests) => {
+      await assertRejects(() => client.deleteObject("file.txt"), S3Errors.ServerError);
+      assertEquals(requests.length, 3);
+    });
+  },
+});
+
+Deno.test({
+  name: "retries can be turned off",
+  fn: async () => {
+    const client = createTestClient({ retry: { maxAttempts: 1 } });
+    await withFakeFetch(() => new Response(errorXml("ServiceUnavailable"), { status: 503 }), async (requests) => {
+      await assertRejects(() => client.deleteObject("file.txt"), S3Errors.ServerError);
+      assertEquals(requests.length, 1);
+    });
+  },
+});
+
+Deno.test({
+  name: "a multi-part upload retries only the part that failed",
+  fn: async () => {
+    const client = createTestClient({ retry: { baseDelayMs: 1 } });
+    let failedOnce = false;
+    await withFakeFetch(({ url }) => {
+      const partNumber = url.searchParams.get("partNumber");
+      if (url.searchParams.has("uploads")) {
+        return new Response(
+          `<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>`,
+        );
+      } else if (partNumber) {
+        if (partNumber === "2" && !failedOnce) {
+          failedOnce = true;
+          return new Response(errorXml("ServiceUnavailable"), { status: 503 });
+        }
+        return new Response(null, { headers: { etag: `"etag-${partNumber}"` } });
+      }
+      return new Response(`<CompleteMultipartUploadResult><ETag>"final"</ETag></CompleteMultipartUploadResult>`);
+    }, async (requests) => {
+      const partSize = 5 * 1024 * 1024;
+      const result = await client.putObject("big.bin", new Uint8Array(partSize * 2), { partSize });
+      assertEquals(result.etag, "final");
+      const sent = requests.map(({ method, url }) => {
+        const partNumber = url.searchParams.get("partNumber");
+        return `${method} ${partNumber ? `part ${partNumber}` : url.search}`;
+      });
+      // (The parts are uploaded in parallel, so they may be sent in either order.)
+      assertEquals(sent[0], "POST ?uploads");
+      assertEquals(sent.slice(1, -1).sort(), ["PUT part 1", "PUT part 2", "PUT part 2"]);
+      assertEquals(sent.at(-1), "POST ?uploadId=upload-1");
+    });
+  },
+});
+
+Deno.test({
+  name: "requests time out according to requestTimeout, and each attempt is retried",
+  fn: async () => {
+    const client = createTestClient({ requestTimeout: 10, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+    await withFakeFetch(hangingResponse, async (requests) => {
+      await assertRejects(() => client.statObject("file.txt"), S3Errors.RequestTimeoutError, "within 10ms");
+      assertEquals(requests.length, 2);
+      // The timeout can be changed per request:
+      await assertRejects(
+        () => client.makeRequest({ method: "GET", objectName: "file.txt", timeout: 5 }),
+        S3Errors.RequestTimeoutError,
+        "within 5ms",
+      );
+    });
+  },
+});
+
+Deno.test({
+  name: "requests can be aborted with an AbortSignal",
+  fn: async () => {
+    const controller = new AbortController();
+    await withFakeFetch((request) => {
+      controller.abort(new Error("changed my mind"));
+      return hangingResponse(request);
+    }, async (requests) => {
+      // A signal that's already aborted stops the request before it's sent:
+      const err = await assertRejects(() => client.getObject("file.txt", { signal: AbortSignal.abort() }));
+      assertEquals((err as Error).name, "AbortError");
+      assertEquals(requests.length, 0);
+
+      // Aborting a request in progress:
+      await assertRejects(
+        () => client.deleteObject("file.txt", { signal: controller.signal }),
+        Error,
+        "changed my mind",
+      );
+      assertEquals(requests.map((r) => `${r.method} ${r.url}`), ["DELETE https://s3.example.com/test-bucket/file.txt"]);
+    });
+  },
+});
+
+Deno.test({
+  name: "aborting a multi-part putObject aborts the upload on the server",
+  fn: async () => {
+    const controller = new AbortController();
+    await withFakeFetch((request) => {
+      if (request.url.searchParams.has("uploads")) {
+        return new Response(
+          `<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>`,
+        );
+      } else if (request.method === "DELETE") {
+        return new Response(null, { status: 204 });
+      }
+      // The parts never finish uploading, so the user gives up as soon as the first one has started:
+      controller.abort();
+      return hangingResponse(request);
+    }, async (requests) => {
+      const partSize = 5 * 1024 * 1024;
+      await assertRejects(
+        () => client.putObject("big.bin", new Uint8Array(partSize * 2), { partSize, signal: controller.signal }),
+      );
+      const sent = requests.map((r) => `${r.method} ${r.url.search}`);
+      assertEquals(sent[0], "POST ?uploads");
+      assertEquals(sent.at(-1), "DELETE ?uploadId=upload-1");
+      assertEquals(sent.filter((r) => r.startsWith("DELETE")).length, 1);
+    });
+  },
+});
+
+Deno.test({
+  name: "putObject() concurrency and maxUploadMemory are validated",
+  fn: async () => {
+    assertThrows(
+      () => createTestClient({ maxUploadMemory: 0 }),
+      S3Errors.InvalidArgumentError,
+    );
+    await assertRejects(
+      () => client.putObject("file.txt", "data", { concurrency: 0 }),
+      S3Errors.InvalidArgumentError,
+      "concurrency must be a whole number",
+    );
+  },
+});
 
-    // The body must be fully disposed of, not just read one chunk deep and abandoned:
-    assert(cancelled, "response body should have been cancelled");
-    assert(response.bodyUsed, "response body should be marked as used");
+Deno.test({
+  name: "reads can be conditional, and unmet conditions are reported with their own errors",
+  fn: async () => {
+    let status = 200;
+    await withFakeFetch(({ method }) => {
+      // Like S3, the responses to unmet conditions on HEAD requests (and all 304 responses) have no body:
+      const body = status === 412 && method !== "HEAD"
+        ? `<Error><Code>PreconditionFailed</Code><Message>At least one of the pre-conditions you specified did not hold</Message></Error>`
+        : null;
+      return new Response(body, { status, headers: { ETag: `"abc"` } });
+    }, async (requests) => {
+      const since = new Date("2025-01-02T03:04:05Z");
+      await client.getObject("file.txt", { ifNoneMatch: "abc", ifModifiedSince: since });
+      assertEquals(requests[0].headers.get("If-None-Match"), `"abc"`);
+      assertEquals(requests[0].headers.get("If-Modified-Since"), "Thu, 02 Jan 2025 03:04:05 GMT");
+      await client.statObject("file.txt", { ifMatch: `"abc"`, ifUnmodifiedSince: since });
+      assertEquals(requests[1].headers.get("If-Match"), `"abc"`); // (Already quoted, so not quoted again)
+      assertEquals(requests[1].headers.get("If-Unmodified-Since"), "Thu, 02 Jan 2025 03:04:05 GMT");
+
+      status = 304;
+      const notModified = await assertRejects(
+        () => client.getObject("file.txt", { ifNoneMatch: "abc" }),
+        S3Errors.NotModifiedError,
+      );
+      assertEquals(notModified.statusCode, 304);
+      await assertRejects(() => client.statObject("file.txt", { ifNoneMatch: "abc" }), S3Errors.NotModifiedError);
+
+      status = 412;
+      const failed = await assertRejects(
+        () => client.getObject("file.txt", { ifMatch: "xyz" }),
+        S3Errors.PreconditionFailedError,
+      );
+      assertEquals(failed.code, "PreconditionFailed");
+      // It's still a ServerError, for code that handles all the errors from the server:
+      assert(failed instanceof S3Errors.ServerError);
+      await assertRejects(() => client.statObject("file.txt", { ifMatch: "xyz" }), S3Errors.PreconditionFailedError);
+    });
+  },
+});
+
+Deno.test({
+  name: "writes can be conditional, including when a multi-part upload is completed",
+  fn: async () => {
+    await withFakeFetch(({ method, url }) => {
+      if (url.searchParams.has("uploads")) {
+        return new Response(
+          `<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>`,
+        );
+      } else if (url.searchParams.has("partNumber")) {
+        return new Response(null, { headers: { etag: `"part"` } });
+      } else if (url.searchParams.has("uploadId") && method === "POST") {
+        return new Response(
+          `<Error><Code>PreconditionFailed</Code><Message>At least one of the pre-conditions you specified did not hold</Message></Error>`,
+          { status: 412 },
+        );
+      } else if (method === "DELETE") {
+        return new Response(null, { status: 204 });
+      }
+      return new Response(null, { headers: { etag: `"new"` } });
+    }, async (requests) => {
+      await client.putObject("doc.json", "{}", { ifNoneMatch: "*" });
+      assertEquals(requests[0].headers.get("If-None-Match"), "*");
+      assertEquals(requests[0].headers.has("If-Match"), false);
+
+      // For a multi-part upload, the condition is sent when the upload is completed, which fails
+      // here, so the upload is aborted:
+      const partSize = 5 * 1024 * 1024;
+      await assertRejects(
+        () => client.putObject("big.bin", new Uint8Array(partSize * 2), { partSize, ifMatch: "old" }),
+        S3Errors.PreconditionFailedError,
+      );
+      const multipartRequests = requests.slice(1);
+      assertEquals(multipartRequests.filter((r) => r.headers.has("If-Match")).map((r) => r.method), ["POST"]);
+      const complete = multipartRequests.find((r) => r.headers.has("If-Match"));
+      assertEquals(complete?.url.search, "?uploadId=upload-1");
+      assertEquals(complete?.headers.get("If-Match"), `"old"`);
+      assertEquals(multipartRequests.at(-1)?.method, "DELETE");
+    });
   },
 });
@@ -1,17 +1,48 @@
 import { TransformChunkSizes } from "./transform-chunk-sizes.ts";
+import * as bucketConfig from "./bucket-config.ts";
+import type { BucketPolicy, BucketVersioning, CorsRule } from "./bucket-config.ts";
+import type { ChecksumAlgorithm } from "./checksums.ts";
+import { CredentialCache, type CredentialProvider, type Credentials } from "./credentials.ts";
+import {
+  type DeleteObjectResult,
+  deleteObjects,
+  type ObjectToDelete,
+  removePrefix,
+  type RemovePrefixOptions,
+  type RemovePrefixResult,
+} from "./delete-objects.ts";
+import * as download from "./download.ts";
+import type { DownloadOptions, ResumableDownloadOptions } from "./download.ts";
+import { clientOptionsFromEnvironment, type EnvironmentOptions } from "./environment.ts";
 import * as errors from "./errors.ts";
 import {
+  conditionHeaders,
   encoder,
   isValidBucketName,
   isValidObjectName,
   isValidPort,
+  isValidPrefix,
   makeDateLong,
   sanitizeETag,
+  sha256digestBase64,
   sha256digestHex,
   type Uint8Array_,
+  writeStreamToFile,
 } from "./helpers.ts";
+import * as lifecycle from "./lifecycle.ts";
+import type { LifecycleRule } from "./lifecycle.ts";
+import { MemoryBudget } from "./memory-budget.ts";
+import * as multipart from "./multipart.ts";
+import * as objectLock from "./object-lock.ts";
+import type { ObjectLockConfiguration, ObjectRetention } from "./object-lock.ts";
 import { ObjectUploader, uploadSingleRequest } from "./object-uploader.ts";
+import { type ProgressCallback, trackDownloadProgress } from "./progress.ts";
+import { defaultRetryOptions, isRetryableError, retryDelayMs, type RetryOptions, sleep } from "./retry.ts";
 import { presignPostV4, presignV4, signV4 } from "./signing.ts";
+import * as tagging from "./tagging.ts";
+import { encodeTagsHeader, type Tags } from "./tagging.ts";
+import type { UploadStateStore } from "./upload-state.ts";
+import { type DeleteMarker, listObjectVersions, type ObjectVersion, type VersionListMarkers } from "./versions.ts";
 import { childText, parse as parseXML } from "./xml-parser.ts";
 
 export interface ClientOptions {
@@ -24,6 +55,12 @@ export interface ClientOptions {
   secretKey?: string;
   /** If using temporary credentials, a session token is required. Otherwise you don't need this. */
   sessionToken?: string;
+  /**
+   * Instead of a fixed `accessKey`/`secretKey`/`sessionToken`, you can pass a function that returns
+   * credentials, e.g. temporary credentials fetched from some other service. The client caches them,
+   * and calls this again to refresh them shortly before their `expiration`.
+   */
+  credentials?: CredentialProvider;
   /** Default bucket name, if not specified on individual requests */
   bucket?: string;
   /** Region to use, e.g. "us-east-1" */
@@ -47,6 +84,28 @@ export interface ClientOptions {
    * @deprecated Pass in a complete URL to `endPoint` instead.
    */
   pathPrefix?: string;
+  /**
+   * How to retry requests that fail for reasons that are likely to be temporary, like network errors,
+   * 5xx responses and throttling. By default, each request is tried up to 3 times, including POST
+   * requests that aren't idempotent, such as completing a multi-part upload. Use `{ maxAttempts: 1 }`
+   * to never retry.
+   */
+  retry?: RetryOptions;
+  /**
+   * How long to wait for the server to start responding to each request, in milliseconds, before
+   * giving up with a `RequestTimeoutError`. This applies to each attempt separately, and doesn't limit
+   * how long it takes to download the body of a response. Can be overridden for individual requests
+   * by passing `timeout`. Default: no timeout.
+   */
+  requestTimeout?: number;
+  /**
+   * The most memory, in bytes, that uploads may use at once to hold the parts they are uploading,
+   * shared by all of this client's uploads. The memory for each part is taken from this before the
+   * part is read from the upload's data, so when it's used up, uploads wait for parts to finish
+   * before reading any more. (A single part that is bigger than this can still be uploaded, when
+   * nothing else is using the memory.) Default: no limit, other than each upload's `concurrency`.
+   */
+  maxUploadMemory?: number;
 }
 
 /**
@@ -119,6 +178,8 @@ export interface ResponseOverrideParams {
 export interface UploadedObjectInfo {
   etag: string;
   versionId: string | null;
+  /** The checksum of the object, in base64, if it was uploaded with a `checksumAlgorithm` */
+  checksum?: string;
 }
 
 export interface CopiedObjectInfo extends UploadedObjectInfo {
@@ -152,6 +213,37 @@ export interface ObjectStatus extends S3Object {
   metadata: ObjectMetadata;
 }
 
+/**
+ * Conditions for reading an object, like the HTTP headers of the same names. ETags can be given with
+ * or without quotes, e.g. the `etag` returned by `statObject()`.
+ *
+ * If `ifMatch` or `ifUnmodifiedSince` isn't met, the request fails with a `PreconditionFailedError`.
+ * If `ifNoneMatch` or `ifModifiedSince` isn't met (i.e. the caller already has this version of the
+ * object), it fails with a `NotModifiedError`.
+ */
+export interface ReadConditions {
+  /** Only read the object if its ETag is this one */
+  ifMatch?: string;
+  /** Only read the object if its ETag is not this one */
+  ifNoneMatch?: string;
+  /** Only read the object if it has been modified since this time */
+  ifModifiedSince?: Date;
+  /** Only read the object if it hasn't been modified since this time */
+  ifUnmodifiedSince?: Date;
+}
+
+/**
+ * Conditions for writing an object, for optimistic concurrency. If they aren't met, the upload fails
+ * with a `PreconditionFailedError` and the object is left as it was. (S3 doesn't support
+ * `If-Modified-Since` or `If-Unmodified-Since` for writes.)
+ */
+export interface WriteConditions {
+  /** Only replace the object if its ETag is this one, i.e. nobody else has replaced it since it was read */
+  ifMatch?: string;
+  /** Set this to `"*"` to only write the object if it doesn't exist yet */
+  ifNoneMatch?: string;
+}
+
 /** The minimum allowed part size for multi-part uploads. https://docs.aws.amazon.com/AmazonS3/latest/userguide/qfacts.html */
 const minimumPartSize = 5 * 1024 * 1024;
 /** The maximum allowed part size for multi-part uploads. https://docs.aws.amazon.com/AmazonS3/latest/userguide/qfacts.html */
@@ -193,6 +285,10 @@ export class Client {
   readonly accessKey?: string;
   readonly #secretKey: string;
   readonly sessionToken?: string;
+  readonly #credentials: CredentialCache | undefined;
+  readonly #retry: Required<RetryOptions>;
+  readonly #requestTimeout: number | undefined;
+  readonly #uploadMemory: MemoryBudget | undefined;
   readonly defaultBucket: string | undefined;
   readonly region: string;
   /** Use path-style requests, e.g. https://endpoint/bucket/object-key instead of https://bucket/object-key */
@@ -240,6 +336,14 @@ export class Client {
     if (params.accessKey && params.accessKey.startsWith("ASIA") && !params.sessionToken) {
       throw new errors.InvalidArgumentError(`If specifying temporary access key, session token must also be provided.`);
     }
+    if (params.maxUploadMemory !== undefined && !(params.maxUploadMemory > 0)) {
+      throw new errors.InvalidArgumentError(`maxUploadMemory must be a positive number of bytes.`);
+    }
+    if (params.credentials && (params.accessKey || params.secretKey || params.sessionToken)) {
+      throw new errors.InvalidArgumentError(
+        `credentials cannot be specified together with accessKey/secretKey/sessionToken.`,
+      );
+    }
 
     const defaultPort = useSSL ? 443 : 80;
     this.port = port ?? defaultPort;
@@ -248,6 +352,12 @@ export class Client {
     this.accessKey = params.accessKey;
     this.#secretKey = params.secretKey ?? "";
     this.sessionToken = params.sessionToken;
+    this.#credentials = params.credentials ? new CredentialCache(params.credentials) : undefined;
+    // (Options that are given as undefined keep their default values.)
+    const retryOptions = Object.entries(params.retry ?? {}).filter(([_key, value]) => value !== undefined);
+    this.#retry = { ...defaultRetryOptions, ...Object.fromEntries(retryOptions) };
+    this.#requestTimeout = params.requestTimeout;
+    this.#uploadMemory = params.maxUploadMemory === undefined ? undefined : new MemoryBudget(params.maxUploadMemory);
     this.pathStyle = params.pathStyle ?? true; // Default path style is true
     this.pathPrefix = pathPrefix ?? "";
     this.defaultBucket = params.bucket;
@@ -266,6 +376,31 @@ export class Client {
     }
   }
 
+  /**
+   * Create a client configured from the standard AWS environment variables (`AWS_ACCESS_KEY_ID`,
+   * `AWS_SECRET_ACCESS_KEY`, `AWS_SESSION_TOKEN`, `AWS_REGION`, `AWS_ENDPOINT_URL_S3`, ...), and from the
+   * shared `~/.aws/credentials` and `~/.aws/config` files, using the profile selected by `AWS_PROFILE`.
+   *
+   * Any options passed in take precedence, e.g. `Client.fromEnvironment({ bucket: "my-bucket" })`.
+   */
+  static async fromEnvironment(options: Partial<ClientOptions> & EnvironmentOptions = {}): Promise<Client> {
+    return new Client(await clientOptionsFromEnvironment(options));
+  }
+
+  /**
+   * Internal helper method to get the credentials to sign a request with, from the credential provider
+   * if there is one. Returns undefined if this client makes anonymous requests.
+   */
+  protected async getCredentials(): Promise<Credentials | undefined> {
+    if (this.#credentials) {
+      return await this.#credentials.get();
+    }
+    if (this.accessKey) {
+      return { accessKey: this.accessKey, secretKey: this.#secretKey, sessionToken: this.sessionToken };
+    }
+    return undefined;
+  }
+
   /** Internal helper method to figure out which bucket name to use for a request */
   protected getBucketName(options: undefined | { bucketName?: string }): string {
     const bucketName = options?.bucketName ?? this.defaultBucket;
@@ -323,7 +458,10 @@ export class Client {
   }
 
   /**
-   * Make a single request to S3
+   * Make a single request to S3.
+   *
+   * If the request fails with an error that is likely to be temporary, it is retried according to
+   * the client's `retry` options. Each attempt is signed anew, with the current date.
    */
   public async makeRequest({ method, payload, ...options }: {
     method: "POST" | "GET" | "PUT" | "DELETE" | string;
@@ -335,6 +473,13 @@ export class Client {
     statusCode?: number;
     /** The request body */
     payload?: Uint8Array_ | string;
+    /**
+     * Send a checksum of the body, for requests where the server requires one to check the integrity
+     * of the body (e.g. DeleteObjects, and putting most bucket configuration).
+     */
+    checksumRequired?: boolean;
+    /** Set to `"md5"` to also send the `Content-MD5` of the body, which some S3-compatible servers require */
+    integrity?: "md5";
     /**
      * returnBody: We have to consume the response body to avoid leaking resources.
      * So by default this method will discard the body. If you actually need it,
@@ -342,29 +487,78 @@ export class Client {
      * can read it.
      */
     returnBody?: boolean;
+    /** Abort the request (including any retries) when this signal is aborted. */
+    signal?: AbortSignal;
+    /** Override the client's `requestTimeout` for this request, in milliseconds. */
+    timeout?: number;
   }): Promise<Response> {
-    const date = new Date();
     const { headers, host, path, encodedPath } = this.buildRequestOptions(options);
     const statusCode = options.statusCode ?? 200;
 
+    let body: Uint8Array_ | undefined;
     if (
       method === "POST" || method === "PUT" || method === "DELETE"
     ) {
-      if (payload === undefined) {
-        payload = new Uint8Array();
-      } else if (typeof payload === "string") {
-        payload = encoder.encode(payload);
-      }
-      headers.set("Content-Length", String(payload.length));
+      body = typeof payload === "string" ? encoder.encode(payload) : payload ?? new Uint8Array();
+      headers.set("Content-Length", String(body.length));
     } else if (payload) {
       throw new Error(`Unexpected payload on ${method} request.`);
     }
-    const sha256sum = await sha256digestHex(payload ?? new Uint8Array());
+    headers.set("x-amz-content-sha256", await sha256digestHex(body ?? new Uint8Array()));
+    if (options.checksumRequired) {
+      headers.set("x-amz-sdk-checksum-algorithm", "SHA256");
+      headers.set("x-amz-checksum-sha256", await sha256digestBase64(body ?? new Uint8Array()));
+    }
+    if (options.integrity === "md5") {
+      const { contentMd5 } = await import("./checksums.ts");
+      headers.set("Content-MD5", contentMd5(body ?? new Uint8Array()));
+    }
+    const fullUrl = `${this.protocol}//${host}${encodedPath}`;
+
+    const { signal } = options;
+    const timeout = options.timeout ?? this.#requestTimeout;
+
+    for (let attempt = 1;; attempt++) {
+      signal?.throwIfAborted();
+      try {
+        const response = await this.sendRequest({ method, headers, path, fullUrl, body, statusCode, signal, timeout });
+        if (!options.returnBody) {
+          // Discard the body, to avoid leaking resources.
+          await response.body?.cancel();
+        }
+        return response;
+      } catch (err: unknown) {
+        if (signal?.aborted || attempt >= this.#retry.maxAttempts || !isRetryableError(err, this.#retry)) {
+          throw err;
+        }
+        await sleep(retryDelayMs(attempt + 1, this.#retry), signal);
+      }
+    }
+  }
+
+  /**
+   * Internal helper for makeRequest(): sign and send one attempt at a request, and throw an error if
+   * the server didn't respond with the expected status code.
+   */
+  private async sendRequest({ method, headers, path, fullUrl, body, statusCode, signal, timeout }: {
+    method: string;
+    headers: Headers;
+    path: string;
+    fullUrl: string;
+    body: Uint8Array_ | undefined;
+    statusCode: number;
+    signal: AbortSignal | undefined;
+    timeout: number | undefined;
+  }): Promise<Response> {
+    const date = new Date();
     headers.set("x-amz-date", makeDateLong(date));
-    headers.set("x-amz-content-sha256", sha256sum);
-    if (this.accessKey) {
-      if (this.sessionToken) {
-        headers.set("x-amz-security-token", this.sessionToken);
+    // In case this is a retry, remove anything we added the last time:
+    headers.delete("authorization");
+    headers.delete("x-amz-security-token");
+    const credentials = await this.getCredentials();
+    if (credentials) {
+      if (credentials.sessionToken) {
+        headers.set("x-amz-security-token", credentials.sessionToken);
       }
       headers.set(
         "authorization",
@@ -372,28 +566,54 @@ export class Client {
           headers,
           method,
           path,
-          accessKey: this.accessKey,
-          secretKey: this.#secretKey,
+          accessKey: credentials.accessKey,
+          secretKey: credentials.secretKey,
           region: this.region,
           date,
         }),
       );
     }
 
-    const fullUrl = `${this.protocol}//${host}${encodedPath}`;
-
-    const response = await fetch(fullUrl, {
-      method,
-      headers,
-      body: payload,
-    });
+    // The timeout only covers waiting for the response headers, so we clear it once they arrive.
+    // (AbortSignal.timeout() can't be cleared, and would also abort a slow download of the body.)
+    const timeoutController = new AbortController();
+    const timer = timeout === undefined ? undefined : setTimeout(() => {
+      timeoutController.abort(
+        new errors.RequestTimeoutError(`The server did not respond within ${timeout}ms (${method} ${path}).`),
+      );
+    }, timeout);
+    let response: Response;
+    try {
+      response = await fetch(fullUrl, {
+        method,
+        headers,
+        body,
+        signal: signal ? AbortSignal.any([signal, timeoutController.signal]) : timeoutController.signal,
+      });
+    } catch (err) {
+      if (signal?.aborted || timeoutController.signal.aborted) {
+        throw err;
+      }
+      // fetch() rejects with a TypeError when there's a network error (connection refused, reset, etc.)
+      throw new errors.NetworkError(`The request failed: ${err instanceof Error ? err.message : err}`, { cause: err });
+    } finally {
+      clearTimeout(timer);
+    }
 
     if (response.status !== statusCode) {
       if (response.status >= 400) {
         const error = await errors.parseServerError(response);
         throw error;
+      } else if (response.status === 304) {
+        await response.body?.cancel();
+        throw new errors.NotModifiedError(
+          response.status,
+          "NotModified",
+          "The object has not been modified: it matches ifNoneMatch, or hasn't changed since ifModifiedSince.",
+        );
       } else if (response.status === 301) {
         // Unfortunately we are not allowed to access the Location header to know what the new location is.
+        await response.body?.cancel();
         throw new errors.ServerError(
           response.status,
           "UnexpectedRedirect",
@@ -401,16 +621,13 @@ export class Client {
             `region-specific endpoint like "s3.us-west-2.amazonaws.com" instead of "s3.amazonaws.com"`,
         );
       }
+      await response.body?.cancel();
       throw new errors.ServerError(
         response.status,
         "UnexpectedStatusCode",
         `Unexpected response code from the server (expected ${statusCode}, got ${response.status} ${response.statusText}).`,
       );
     }
-    if (!options.returnBody) {
-      // Discard the body, to avoid leaking resources.
-      await response.body?.cancel();
-    }
     return response;
   }
 
@@ -421,7 +638,7 @@ export class Client {
    */
   async deleteObject(
     objectName: string,
-    options: { bucketName?: string; versionId?: string; governanceBypass?: boolean } = {},
+    options: { bucketName?: string; versionId?: string; governanceBypass?: boolean; signal?: AbortSignal } = {},
   ) {
     const bucketName = this.checkNames(objectName, options);
 
@@ -438,15 +655,61 @@ export class Client {
       headers,
       query,
       statusCode: 204,
+      signal: options.signal,
     });
   }
 
+  /**
+   * Delete many objects, using as few requests as possible: up to 1,000 objects are deleted per request.
+   *
+   * `objects` can be any iterable or async iterable of keys, or of `{ key, versionId }` to delete
+   * specific versions. The result for each object is yielded as each batch is deleted. If an object
+   * can't be deleted, its result has `deleted: false` and the error code, and the others are still
+   * deleted.
+   *
+   * ```ts
+   * for await (const result of client.deleteObjects(["a.txt", "b.txt"])) {
+   *   if (!result.deleted) console.error(`Couldn't delete ${result.key}: ${result.message}`);
+   * }
+   * ```
+   */
+  public deleteObjects(
+    objects: Iterable<ObjectToDelete> | AsyncIterable<ObjectToDelete>,
+    options: {
+      bucketName?: string;
+      governanceBypass?: boolean;
+      /** Set to `"md5"` to send the `Content-MD5` of each request, which some S3-compatible servers require */
+      integrity?: "md5";
+      signal?: AbortSignal;
+    } = {},
+  ): AsyncGenerator<DeleteObjectResult, void, undefined> {
+    const bucketName = this.getBucketName(options);
+    return deleteObjects({ ...options, client: this, bucketName, objects });
+  }
+
+  /**
+   * Delete every object whose key starts with `prefix`, e.g. everything "in the folder" `tenants/123/`.
+   *
+   * The objects are listed, then deleted in batches of up to 1,000 objects per request. Returns how
+   * many objects were found and deleted, and which couldn't be deleted. Use `dryRun: true` to only
+   * count the objects, and `includeVersions: true` to delete every version of them, in a versioned bucket.
+   *
+   * The prefix can't be empty, so that this can't delete everything in the bucket by mistake.
+   */
+  public async removePrefix(prefix: string, options: RemovePrefixOptions = {}): Promise<RemovePrefixResult> {
+    const bucketName = this.getBucketName(options);
+    if (!isValidPrefix(prefix)) {
+      throw new errors.InvalidArgumentError(`Invalid prefix: "${prefix}"`);
+    }
+    return await removePrefix({ ...options, client: this, bucketName, prefix });
+  }
+
   /**
    * Check if an object with the specified key exists.
    */
   public async exists(
     objectName: string,
-    options?: { bucketName?: string; versionId?: string; headers?: Record<string, string> },
+    options?: { bucketName?: string; versionId?: string; headers?: Record<string, string>; signal?: AbortSignal },
   ): Promise<boolean> {
     try {
       await this.statObject(objectName, options);
@@ -464,6 +727,9 @@ export class Client {
    *
    * Returns a standard HTTP Response object, which has many ways of consuming the response including
    * `.text()`, `.json()`, `.body` (ReadableStream), `.arrayBuffer()`, and `.blob()`.
+   *
+   * Conditions like `ifNoneMatch` can be given to only download the object if it has changed; see
+   * `ReadConditions` for the errors thrown when they aren't met.
    */
   public getObject(
     objectName: string,
@@ -472,7 +738,19 @@ export class Client {
       bucketName?: string;
       versionId?: string;
       responseParams?: ResponseOverrideParams;
-    },
+      /** Abort the request, including the download of the response body. */
+      signal?: AbortSignal;
+      /** Called as the body of the response is read, with the number of bytes downloaded so far. */
+      onProgress?: ProgressCallback;
+      /** Additional headers to include in the request */
+      headers?: Record<string, string>;
+      /**
+       * Ask the server for the object's checksum, and check the body against it as it's read: if it
+       * doesn't match, reading the body fails with a `ChecksumMismatchError` at the end. Only whole
+       * objects with a full-object checksum can be checked, not ranges, or composite checksums.
+       */
+      verifyChecksum?: boolean;
+    } & ReadConditions,
   ): Promise<Response> {
     return this.getPartialObject(objectName, { ...options, offset: 0, length: 0 });
   }
@@ -493,11 +771,29 @@ export class Client {
       bucketName?: string;
       versionId?: string;
       responseParams?: ResponseOverrideParams;
-    },
+      /** Abort the request, including the download of the response body. */
+      signal?: AbortSignal;
+      /** Called as the body of the response is read, with the number of bytes downloaded so far. */
+      onProgress?: ProgressCallback;
+      /** Additional headers to include in the request */
+      headers?: Record<string, string>;
+      /**
+       * Ask the server for the object's checksum, and check the body against it as it's read: if it
+       * doesn't match, reading the body fails with a `ChecksumMismatchError` at the end. Only whole
+       * objects with a full-object checksum can be checked, not ranges, or composite checksums.
+       */
+      verifyChecksum?: boolean;
+    } & ReadConditions,
   ): Promise<Response> {
     const bucketName = this.checkNames(objectName, options);
 
     const headers = new Headers(Object.entries(options.metadata ?? {}));
+    for (const [key, value] of Object.entries({ ...conditionHeaders(options), ...options.headers })) {
+      headers.set(key, value);
+    }
+    if (options.verifyChecksum) {
+      headers.set("x-amz-checksum-mode", "ENABLED");
+    }
     let statusCode = 200; // Expected status code
     if (offset || length) {
       headers.set("Range", `bytes=${offset || 0}-${length ? (offset || 0) + length - 1 : ""}`);
@@ -509,7 +805,7 @@ export class Client {
       ...options.responseParams,
       ...(options.versionId ? { versionId: options.versionId } : {}),
     };
-    return await this.makeRequest({
+    const response = await this.makeRequest({
       method: "GET",
       bucketName,
       objectName,
@@ -517,7 +813,50 @@ export class Client {
       query,
       statusCode,
       returnBody: true,
+      signal: options.signal,
     });
+    // (A range of an object can't be checked, because the checksum is of the whole object.)
+    const checkedResponse = options.verifyChecksum && statusCode === 200
+      ? (await import("./checksums.ts")).verifyResponseChecksum(response)
+      : response;
+    return options.onProgress ? trackDownloadProgress(checkedResponse, options.onProgress) : checkedResponse;
+  }
+
+  /**
+   * Download an object quickly, by downloading several ranges of it in parallel, and return its
+   * contents as a stream. This is faster than `getObject()` for large objects, especially when the
+   * latency to the server is high.
+   *
+   * If the object is changed while it's being downloaded, the stream fails with an `ObjectChangedError`.
+   */
+  public async downloadObject(objectName: string, options: DownloadOptions = {}): Promise<ReadableStream<Uint8Array>> {
+    this.checkNames(objectName, options);
+    return await download.downloadObject({ ...options, client: this, objectName });
+  }
+
+  /**
+   * Download an object as a stream that survives connection failures: if the connection drops while
+   * the data is being read, the stream requests the rest of the object and carries on, up to
+   * `maxResumes` times.
+   *
+   * If the object is changed before the download resumes, the stream fails with an `ObjectChangedError`.
+   * Resuming relies on the object's ETag, so if the server doesn't return one, the download isn't resumed.
+   */
+  public async getResumableObject(
+    objectName: string,
+    options: ResumableDownloadOptions = {},
+  ): Promise<ReadableStream<Uint8Array>> {
+    this.checkNames(objectName, options);
+    return await download.resumableDownload({ ...options, client: this, objectName });
+  }
+
+  /**
+   * Download an object to a file, like `downloadObject()`. The file is replaced if it exists, once the
+   * download has finished: if the download fails, the file is left as it was.
+   * (This requires a runtime with `node:fs`, such as Deno, Node or Bun.)
+   */
+  public async downloadObjectToFile(objectName: string, path: string, options: DownloadOptions = {}): Promise<void> {
+    await writeStreamToFile(path, await this.downloadObject(objectName, options));
   }
 
   /**
@@ -542,7 +881,8 @@ export class Client {
       extraHeaders?: Record<string, string>;
     } = {},
   ): Promise<string> {
-    if (!this.accessKey) {
+    const credentials = await this.getCredentials();
+    if (!credentials) {
       throw new errors.AccessKeyRequiredError();
     }
     const bucketName = this.checkNames(objectName, options);
@@ -560,9 +900,9 @@ export class Client {
       headers,
       method,
       path,
-      accessKey: this.accessKey,
-      secretKey: this.#secretKey,
-      sessionToken: this.sessionToken,
+      accessKey: credentials.accessKey,
+      secretKey: credentials.secretKey,
+      sessionToken: credentials.sessionToken,
       region: this.region,
       date: requestDate,
       expirySeconds,
@@ -610,6 +950,7 @@ export class Client {
        * This will not affect the shape of the result, just its efficiency.
        */
       pageSize?: number;
+      signal?: AbortSignal;
     } = {},
   ): AsyncGenerator<S3Object, void, undefined> {
     for await (const result of this.listObjectsGrouped({ ...options, delimiter: "" })) {
@@ -657,6 +998,7 @@ export class Client {
       pageSize?: number;
       /** Retrieve results from later pages using this continuation token. */
       continuationToken?: string;
+      signal?: AbortSignal;
     },
   ): AsyncGenerator<S3Object | CommonPrefix, string | undefined, undefined> {
     const bucketName = this.getBucketName(options);
@@ -686,6 +1028,7 @@ export class Client {
           ...(continuationToken ? { "continuation-token": continuationToken } : {}),
         },
         returnBody: true,
+        signal: options.signal,
       });
       const responseText = await pageResponse.text();
       // Parse the response XML.
@@ -750,6 +1093,11 @@ export class Client {
 
   /**
    * Upload an object
+   *
+   * To avoid overwriting someone else's changes, pass the `etag` of the version that was read as
+   * `ifMatch`, or `ifNoneMatch: "*"` to only create a new object. If the condition isn't met, this
+   * fails with a `PreconditionFailedError`. For multi-part uploads, the condition is checked when the
+   * upload is completed.
    */
   async putObject(
     objectName: string,
@@ -766,7 +1114,49 @@ export class Client {
        * part size (up to 5GB).
        */
       partSize?: number;
-    },
+      /**
+       * Abort the upload. If it's a multi-part upload, any parts that are being uploaded are stopped,
+       * and the upload is aborted on the server so that the parts already uploaded are discarded.
+       */
+      signal?: AbortSignal;
+      /**
+       * Make a multi-part upload resumable, by saving its state here while it's in progress. If the
+       * upload is interrupted, it is left on the server instead of being aborted; calling `putObject()`
+       * again with the same data, object name and part size then resumes it, and only uploads the
+       * parts that the server doesn't have yet.
+       *
+       * An upload that is never resumed stays on the server, and its parts keep taking up storage,
+       * until it's aborted. Clean up such uploads with `listMultipartUploads()` and
+       * `abortMultipartUpload()`, or with a lifecycle rule that uses `abortIncompleteMultipartUpload`.
+       */
+      stateStore?: UploadStateStore;
+      /**
+       * Called with the number of bytes uploaded so far (and the total, if known), each time the
+       * server acknowledges a part of a multi-part upload, or the whole object for smaller uploads.
+       * Only acknowledged bytes are counted, so the progress moves forward one whole part at a time,
+       * rather than as the bytes of each part are sent.
+       */
+      onProgress?: ProgressCallback;
+      /**
+       * How many parts of a multi-part upload to upload in parallel. Each part in flight is held in
+       * memory, so this also limits how much memory the upload uses. Default: 4
+       */
+      concurrency?: number;
+      /** Tags to add to the object. (This sets the `x-amz-tagging` header of `metadata`.) */
+      tags?: Tags;
+      /**
+       * Compute a checksum of the data, which the server checks and stores with the object, so that
+       * downloads can be checked against it too (see `verifyChecksum` of `getObject()`). Multi-part
+       * uploads send a checksum of each part, and for CRC algorithms, of the whole object.
+       */
+      checksumAlgorithm?: ChecksumAlgorithm;
+      /**
+       * Set to `"md5"` to send the `Content-MD5` of the data (of each part, for multi-part uploads), which
+       * the server checks. Some S3-compatible servers require this, and so does S3 for uploads to a
+       * bucket with Object Lock, unless a `checksumAlgorithm` is used.
+       */
+      integrity?: "md5";
+    } & WriteConditions,
   ): Promise<UploadedObjectInfo> {
     const bucketName = this.checkNames(objectName, options);
 
@@ -803,13 +1193,32 @@ export class Client {
     } else if (partSize > maximumPartSize) {
       throw new errors.InvalidArgumentError(`Part size should be less than 5GB`);
     }
+    const concurrency = options?.concurrency;
+    if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency >= 1)) {
+      throw new errors.InvalidArgumentError(`concurrency must be a whole number, at least 1.`);
+    }
 
-    const metadata = options?.metadata ?? {};
+    const metadata: ObjectMetadata = options?.tags
+      ? { ...options.metadata, "x-amz-tagging": encodeTagsHeader(options.tags) }
+      : options?.metadata ?? {};
+    const conditions: WriteConditions = { ifMatch: options?.ifMatch, ifNoneMatch: options?.ifNoneMatch };
 
     if (bytes !== undefined && bytes.byteLength < partSize) {
       // We already have all of the data in memory and it fits into a single request, so upload it
       // directly. This avoids converting it to a stream and copying it through the chunker.
-      return uploadSingleRequest({ client: this, bucketName, objectName, metadata, payload: bytes });
+      const result = await uploadSingleRequest({
+        client: this,
+        bucketName,
+        objectName,
+        metadata,
+        conditions,
+        checksumAlgorithm: options?.checksumAlgorithm,
+        integrity: options?.integrity,
+        payload: bytes,
+        signal: options?.signal,
+      });
+      options?.onProgress?.({ loaded: bytes.byteLength, total: size });
+      return result;
     }
 
     // Prepare for streaming upload.
@@ -817,7 +1226,7 @@ export class Client {
     // s3 requires that all non-end chunks be at least `partSize`,
     // so we chunk the stream until we hit either that size or the end before
     // we flush it to s3.
-    const chunker = new TransformChunkSizes(partSize);
+    const chunker = new TransformChunkSizes(partSize, this.#uploadMemory);
 
     // This is a Writable stream that can be written to in order to upload
     // to the specified bucket and object automatically.
@@ -827,9 +1236,22 @@ export class Client {
       objectName,
       partSize,
       metadata,
+      conditions,
+      checksumAlgorithm: options?.checksumAlgorithm,
+      integrity: options?.integrity,
+      signal: options?.signal,
+      stateStore: options?.stateStore,
+      size,
+      onProgress: options?.onProgress,
+      concurrency,
+      releaseChunk: chunker.release,
     });
     // stream => chunker => uploader
-    await stream.pipeThrough(chunker).pipeTo(uploader);
+    try {
+      await stream.pipeThrough(chunker).pipeTo(uploader, { signal: options?.signal });
+    } finally {
+      chunker.releaseAll();
+    }
     return uploader.getResult();
   }
 
@@ -865,6 +1287,125 @@ export class Client {
     }
   }
 
+  /**
+   * Start a multi-part upload, and return its `uploadId`.
+   *
+   * Most of the time, you should just use `putObject()`, which uses a multi-part upload
+   * automatically for large objects. Use this and the other multi-part upload methods if you need
+   * more control, e.g. to upload the parts of an object from several different processes.
+   * Once every part has been uploaded with `uploadPart()`, call `completeMultipartUpload()`; or call
+   * `abortMultipartUpload()` to give up and discard the parts.
+   */
+  public async createMultipartUpload(
+    objectName: string,
+    options?: {
+      bucketName?: string;
+      metadata?: ObjectMetadata;
+      /** Require every part to be uploaded with a checksum using this algorithm */
+      checksumAlgorithm?: ChecksumAlgorithm;
+      signal?: AbortSignal;
+    },
+  ): Promise<{ uploadId: string }> {
+    const bucketName = this.checkNames(objectName, options);
+    return await multipart.createMultipartUpload({ ...options, client: this, bucketName, objectName });
+  }
+
+  /**
+   * Upload one part of a multi-part upload. Parts are numbered from 1 to 10,000, and every part except
+   * the last one must be at least 5MB. Keep the returned `etag` of each part; you will need it to
+   * complete the upload.
+   */
+  public async uploadPart(
+    objectName: string,
+    data: Uint8Array_ | string,
+    options: {
+      uploadId: string;
+      partNumber: number;
+      bucketName?: string;
+      /**
+       * If the object is encrypted with a customer-provided key, the same
+       * `x-amz-server-side-encryption-customer-*` metadata that was used to create the upload.
+       */
+      metadata?: ObjectMetadata;
+      /** The `checksumAlgorithm` that the upload was created with, if any */
+      checksumAlgorithm?: ChecksumAlgorithm;
+      /** Set to `"md5"` to send the `Content-MD5` of the part, which the server checks */
+      integrity?: "md5";
+      signal?: AbortSignal;
+    },
+  ): Promise<multipart.UploadedPart> {
+    const bucketName = this.checkNames(objectName, options);
+    return await multipart.uploadPart({ ...options, client: this, bucketName, objectName, payload: data });
+  }
+
+  /**
+   * Complete a multi-part upload, combining the given parts (in order of part number) into the final object.
+   * If `ifMatch` or `ifNoneMatch` is given and isn't met, this fails with a `PreconditionFailedError`.
+   */
+  public async completeMultipartUpload(
+    objectName: string,
+    { ifMatch, ifNoneMatch, ...options }: {
+      uploadId: string;
+      parts: readonly multipart.UploadedPart[];
+      bucketName?: string;
+      /** The `checksumAlgorithm` that the upload was created with, if any */
+      checksumAlgorithm?: ChecksumAlgorithm;
+      /** The checksum of the whole object, for the server to check (only for CRC algorithms) */
+      checksum?: string;
+      signal?: AbortSignal;
+    } & WriteConditions,
+  ): Promise<UploadedObjectInfo> {
+    const bucketName = this.checkNames(objectName, options);
+    return await multipart.completeMultipartUpload({
+      ...options,
+      client: this,
+      bucketName,
+      objectName,
+      conditions: { ifMatch, ifNoneMatch },
+    });
+  }
+
+  /** Abort a multi-part upload, so that the server discards any parts that have been uploaded. */
+  public async abortMultipartUpload(
+    objectName: string,
+    options: { uploadId: string; bucketName?: string; signal?: AbortSignal },
+  ): Promise<void> {
+    const bucketName = this.checkNames(objectName, options);
+    await multipart.abortMultipartUpload({ ...options, client: this, bucketName, objectName });
+  }
+
+  /** List the parts that have been uploaded so far in a multi-part upload. */
+  public listParts(
+    objectName: string,
+    options: {
+      uploadId: string;
+      bucketName?: string;
+      /** How many parts to retrieve per HTTP request (default: 1000) */
+      pageSize?: number;
+      signal?: AbortSignal;
+    },
+  ): AsyncGenerator<multipart.Part, void, undefined> {
+    const bucketName = this.checkNames(objectName, options);
+    return multipart.listParts({ ...options, client: this, bucketName, objectName });
+  }
+
+  /**
+   * List the multi-part uploads that have been started but not yet completed or aborted,
+   * optionally filtered by the given key prefix.
+   */
+  public listMultipartUploads(
+    options: {
+      prefix?: string;
+      bucketName?: string;
+      /** How many uploads to retrieve per HTTP request (default: 1000) */
+      pageSize?: number;
+      signal?: AbortSignal;
+    } = {},
+  ): AsyncGenerator<multipart.MultipartUploadInfo, void, undefined> {
+    const bucketName = this.getBucketName(options);
+    return multipart.listMultipartUploads({ ...options, client: this, bucketName });
+  }
+
   /**
    * Get detailed information about an object.
    */
@@ -877,7 +1418,8 @@ export class Client {
        * Additional headers to include in the request
        */
       headers?: Record<string, string>;
-    },
+      signal?: AbortSignal;
+    } & ReadConditions,
   ): Promise<ObjectStatus> {
     const bucketName = this.checkNames(objectName, options);
     const query: Record<string, string> = {};
@@ -890,8 +1432,9 @@ export class Client {
       bucketName,
       objectName,
       query,
-      // Add custom headers if provided
-      headers: new Headers(options?.headers),
+      // Add the conditions and custom headers, if provided
+      headers: new Headers({ ...conditionHeaders(options ?? {}), ...options?.headers }),
+      signal: options?.signal,
     });
 
     const metadata: ObjectMetadata = {};
@@ -928,6 +1471,9 @@ export class Client {
       bucketName?: string;
       /** Metadata for the new object. If not specified, metadata will be copied from the source. */
       metadata?: ObjectMetadata;
+      /** Tags for the new object. If not specified, tags will be copied from the source. */
+      tags?: Tags;
+      signal?: AbortSignal;
     },
   ): Promise<CopiedObjectInfo> {
     const bucketName = this.checkNames(objectName, options);
@@ -944,9 +1490,20 @@ export class Client {
     if (options?.metadata !== undefined) {
       headers.set("x-amz-metadata-directive", "REPLACE");
     }
+    if (options?.tags !== undefined) {
+      headers.set("x-amz-tagging", encodeTagsHeader(options.tags));
+      headers.set("x-amz-tagging-directive", "REPLACE");
+    }
     headers.set("x-amz-copy-source", xAmzCopySource);
 
-    const response = await this.makeRequest({ method: "PUT", bucketName, objectName, headers, returnBody: true });
+    const response = await this.makeRequest({
+      method: "PUT",
+      bucketName,
+      objectName,
+      headers,
+      returnBody: true,
+      signal: options?.signal,
+    });
 
     const responseText = await response.text();
     // Parse the response XML.
@@ -969,10 +1526,108 @@ export class Client {
     };
   }
 
+  /** Get the tags of an object */
+  public async getObjectTagging(
+    objectName: string,
+    options: { bucketName?: string; versionId?: string; signal?: AbortSignal } = {},
+  ): Promise<Tags> {
+    const bucketName = this.checkNames(objectName, options);
+    return await tagging.getObjectTagging({ ...options, client: this, bucketName, objectName });
+  }
+
+  /** Replace the tags of an object, e.g. `client.putObjectTagging("key", { project: "apollo" })` */
+  public async putObjectTagging(
+    objectName: string,
+    tags: Tags,
+    options: { bucketName?: string; versionId?: string; signal?: AbortSignal } = {},
+  ): Promise<void> {
+    const bucketName = this.checkNames(objectName, options);
+    await tagging.putObjectTagging({ ...options, client: this, bucketName, objectName, tags });
+  }
+
+  /** Remove all the tags of an object */
+  public async deleteObjectTagging(
+    objectName: string,
+    options: { bucketName?: string; versionId?: string; signal?: AbortSignal } = {},
+  ): Promise<void> {
+    const bucketName = this.checkNames(objectName, options);
+    await tagging.deleteObjectTagging({ ...options, client: this, bucketName, objectName });
+  }
+
+  /** Get the Object Lock retention of an object (version). Returns undefined if it has no retention. */
+  public async getObjectRetention(
+    objectName: string,
+    options: { bucketName?: string; versionId?: string; signal?: AbortSignal } = {},
+  ): Promise<ObjectRetention | undefined> {
+    const bucketName = this.checkNames(objectName, options);
+    return await objectLock.getObjectRetention({ ...options, client: this, bucketName, objectName });
+  }
+
+  /**
+   * Set the Object Lock retention of an object (version), e.g. to extend it. Shortening or removing
+   * "GOVERNANCE" retention requires `governanceBypass: true` (and the permission to bypass it).
+   */
+  public async putObjectRetention(
+    objectName: string,
+    retention: ObjectRetention,
+    options: { bucketName?: string; versionId?: string; governanceBypass?: boolean; signal?: AbortSignal } = {},
+  ): Promise<void> {
+    const bucketName = this.checkNames(objectName, options);
+    await objectLock.putObjectRetention({ ...options, client: this, bucketName, objectName, retention });
+  }
+
+  /** Check whether an object (version) has an Object Lock legal hold */
+  public async getObjectLegalHold(
+    objectName: string,
+    options: { bucketName?: string; versionId?: string; signal?: AbortSignal } = {},
+  ): Promise<boolean> {
+    const bucketName = this.checkNames(objectName, options);
+    return await objectLock.getObjectLegalHold({ ...options, client: this, bucketName, objectName });
+  }
+
+  /** Place (`true`) or remove (`false`) an Object Lock legal hold on an object (version) */
+  public async putObjectLegalHold(
+    objectName: string,
+    legalHold: boolean,
+    options: { bucketName?: string; versionId?: string; signal?: AbortSignal } = {},
+  ): Promise<void> {
+    const bucketName = this.checkNames(objectName, options);
+    await objectLock.putObjectLegalHold({ ...options, client: this, bucketName, objectName, legalHold });
+  }
+
+  /**
+   * List the versions and delete markers of objects in a versioned bucket, optionally filtered by
+   * the given key prefix and grouped based on the specified "delimiter", like `listObjectsGrouped()`.
+   *
+   * The versions of each key are listed from newest to oldest. Use the `versionId` of each result
+   * with methods like `getObject()` or `deleteObject()` to access that version.
+   *
+   * If `maxResults` is reached, the generator's return value is the `keyMarker` and `versionIdMarker`
+   * to pass in to retrieve the next page of results.
+   */
+  public listObjectVersions(
+    options: {
+      prefix?: string;
+      delimiter?: string;
+      bucketName?: string;
+      /** Retrieve results after this key (and after `versionIdMarker` of this key, if given). */
+      keyMarker?: string;
+      versionIdMarker?: string;
+      /** Don't return more than this many results in total. Default: unlimited. */
+      maxResults?: number;
+      /** How many results to retrieve per HTTP request (default: 1000) */
+      pageSize?: number;
+      signal?: AbortSignal;
+    } = {},
+  ): AsyncGenerator<ObjectVersion | DeleteMarker | CommonPrefix, VersionListMarkers | undefined, undefined> {
+    const bucketName = this.getBucketName(options);
+    return listObjectVersions({ ...options, client: this, bucketName });
+  }
+
   /** Check if a bucket exists */
-  public async bucketExists(bucketName: string): Promise<boolean> {
+  public async bucketExists(bucketName: string, options: { signal?: AbortSignal } = {}): Promise<boolean> {
     try {
-      const objects = this.listObjects({ bucketName });
+      const objects = this.listObjects({ bucketName, signal: options.signal });
       // We don't need to fully list the objects, just check if we can start listing
       await objects.next();
       return true;
@@ -985,25 +1640,233 @@ export class Client {
   }
 
   /** Create a new bucket */
-  public async makeBucket(bucketName: string): Promise<void> {
+  public async makeBucket(
+    bucketName: string,
+    options: {
+      /**
+       * Enable Object Lock for the bucket, so that objects can be protected from being deleted or
+       * overwritten. This also enables versioning. It can't be enabled later on some servers.
+       */
+      objectLocking?: boolean;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<void> {
+    const headers = new Headers();
+    if (options.objectLocking) {
+      headers.set("x-amz-bucket-object-lock-enabled", "true");
+    }
     await this.makeRequest({
       method: "PUT",
       bucketName: this.getBucketName({ bucketName }),
       objectName: "",
+      headers,
       statusCode: 200,
+      signal: options.signal,
     });
   }
 
   /** Delete a bucket (must be empty) */
-  public async removeBucket(bucketName: string): Promise<void> {
+  public async removeBucket(bucketName: string, options: { signal?: AbortSignal } = {}): Promise<void> {
     await this.makeRequest({
       method: "DELETE",
       bucketName: this.getBucketName({ bucketName }),
       objectName: "",
       statusCode: 204,
+      signal: options.signal,
+    });
+  }
+
+  /** Get the versioning configuration of a bucket */
+  public async getBucketVersioning(
+    bucketName: string,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<BucketVersioning> {
+    return await bucketConfig.getBucketVersioning({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+    });
+  }
+
+  /**
+   * Enable or suspend versioning of a bucket. Once versioning has been enabled, it can be suspended
+   * but not turned off entirely.
+   */
+  public async putBucketVersioning(
+    bucketName: string,
+    versioning: BucketVersioning,
+    options: {
+      /**
+       * The serial number of the MFA device and the code it displays, separated by a space. This is
+       * required to change `mfaDelete`, and to change the status of a bucket that has MFA delete enabled.
+       */
+      mfa?: string;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<void> {
+    await bucketConfig.putBucketVersioning({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+      versioning,
+    });
+  }
+
+  /**
+   * Get the CORS rules of a bucket, which allow web pages on other origins to access it.
+   * Returns an empty list if the bucket has no CORS rules.
+   */
+  public async getBucketCors(bucketName: string, options: { signal?: AbortSignal } = {}): Promise<CorsRule[]> {
+    return await bucketConfig.getBucketCors({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+    });
+  }
+
+  /**
+   * Replace the CORS rules of a bucket. For example, to allow uploads with presigned URLs from a web app:
+   * ```ts
+   * await client.putBucketCors("my-bucket", [
+   *   { allowedOrigins: ["https://app.example.com"], allowedMethods: ["PUT", "POST"], allowedHeaders: ["*"] },
+   * ]);
+   * ```
+   */
+  public async putBucketCors(
+    bucketName: string,
+    rules: readonly CorsRule[],
+    options: { signal?: AbortSignal } = {},
+  ): Promise<void> {
+    await bucketConfig.putBucketCors({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+      rules,
+    });
+  }
+
+  /** Remove the CORS rules of a bucket */
+  public async deleteBucketCors(bucketName: string, options: { signal?: AbortSignal } = {}): Promise<void> {
+    await bucketConfig.deleteBucketCors({ ...options, client: this, bucketName: this.getBucketName({ bucketName }) });
+  }
+
+  /** Get the policy of a bucket, parsed from JSON. Returns undefined if the bucket has no policy. */
+  public async getBucketPolicy(
+    bucketName: string,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<BucketPolicy | undefined> {
+    return await bucketConfig.getBucketPolicy({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+    });
+  }
+
+  /**
+   * Replace the policy of a bucket. For example, to let anyone download the objects under `public/`:
+   * ```ts
+   * await client.putBucketPolicy("my-bucket", {
+   *   Version: "2012-10-17",
+   *   Statement: [
+   *     { Effect: "Allow", Principal: "*", Action: "s3:GetObject", Resource: "arn:aws:s3:::my-bucket/public/*" },
+   *   ],
+   * });
+   * ```
+   */
+  public async putBucketPolicy(
+    bucketName: string,
+    policy: BucketPolicy,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<void> {
+    await bucketConfig.putBucketPolicy({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+      policy,
+    });
+  }
+
+  /** Remove the policy of a bucket */
+  public async deleteBucketPolicy(bucketName: string, options: { signal?: AbortSignal } = {}): Promise<void> {
+    await bucketConfig.deleteBucketPolicy({ ...options, client: this, bucketName: this.getBucketName({ bucketName }) });
+  }
+
+  /** Get the Object Lock configuration of a bucket, including the default retention of new objects */
+  public async getObjectLockConfiguration(
+    bucketName: string,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<ObjectLockConfiguration> {
+    return await objectLock.getObjectLockConfiguration({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+    });
+  }
+
+  /**
+   * Set the Object Lock configuration of a bucket, e.g. the default retention of new objects. (Object
+   * Lock can't be disabled once it's enabled, so `enabled` must be true.)
+   * ```ts
+   * await client.putObjectLockConfiguration("my-bucket", {
+   *   enabled: true,
+   *   defaultRetention: { mode: "GOVERNANCE", days: 30 },
+   * });
+   * ```
+   */
+  public async putObjectLockConfiguration(
+    bucketName: string,
+    config: ObjectLockConfiguration,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<void> {
+    await objectLock.putObjectLockConfiguration({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+      config,
+    });
+  }
+
+  /**
+   * Get the lifecycle rules of a bucket, which expire objects or move them to other storage classes.
+   * Returns an empty list if the bucket has no lifecycle rules.
+   */
+  public async getBucketLifecycle(
+    bucketName: string,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<LifecycleRule[]> {
+    return await lifecycle.getBucketLifecycle({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
     });
   }
 
+  /**
+   * Replace the lifecycle rules of a bucket. For example, to delete objects under `tmp/` after 7 days:
+   * ```ts
+   * await client.putBucketLifecycle("my-bucket", [
+   *   { id: "expire-tmp", status: "Enabled", filter: { prefix: "tmp/" }, expiration: { days: 7 } },
+   * ]);
+   * ```
+   */
+  public async putBucketLifecycle(
+    bucketName: string,
+    rules: readonly LifecycleRule[],
+    options: { signal?: AbortSignal } = {},
+  ): Promise<void> {
+    await lifecycle.putBucketLifecycle({
+      ...options,
+      client: this,
+      bucketName: this.getBucketName({ bucketName }),
+      rules,
+    });
+  }
+
+  /** Remove all the lifecycle rules of a bucket */
+  public async deleteBucketLifecycle(bucketName: string, options: { signal?: AbortSignal } = {}): Promise<void> {
+    await lifecycle.deleteBucketLifecycle({ ...options, client: this, bucketName: this.getBucketName({ bucketName }) });
+  }
+
   /**
    * Creates a presigned POST policy that can be used to allow browser/client uploads directly to S3.
    * This is equivalent to AWS SDK's createPresignedPost functionality.
@@ -1035,13 +1898,15 @@ export class Client {
       /**
        * Additional form fields to include in the policy and the result.
        *
-       * The `key`, `X-Amz-Algorithm`, `X-Amz-Credential`, and `X-Amz-Date` fields are generated by
-       * this method, and passing any of them here is an error. Use `objectName` to set the key.
+       * The `key`, `X-Amz-Algorithm`, `X-Amz-Credential`, and `X-Amz-Date` fields (and
+       * `X-Amz-Security-Token`, when using temporary credentials) are generated by this method, and
+       * passing any of them here is an error. Use `objectName` to set the key.
        */
       fields?: Record<string, string>;
     } = {},
   ): Promise<PresignedPostResult> {
     const bucketName = this.checkNames(objectName, options);
+    const credentials = await this.getCredentials();
 
     // Build request options
     const requestDate = options.requestDate || new Date();
@@ -1052,8 +1917,9 @@ export class Client {
       host: this.host,
       bucket: bucketName,
       objectKey: objectName,
-      accessKey: this.accessKey || "",
-      secretKey: this.#secretKey || "",
+      accessKey: credentials?.accessKey ?? "",
+      secretKey: credentials?.secretKey ?? "",
+      sessionToken: credentials?.sessionToken,
       region: this.region,
       date: requestDate,
       expirySeconds,
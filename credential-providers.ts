@@ -0,0 +1,8 @@
+/**
+ * @module
+ * The credential providers that get temporary credentials from somewhere else, for the client's
+ * `credentials` option. These are exported as `S3CredentialProviders`.
+ */
+
+export { containerCredentials, instanceMetadataCredentials } from "./metadata-credentials.ts";
+export { assumeRole, assumeRoleWithWebIdentity } from "./sts.ts";
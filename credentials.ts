@@ -0,0 +1,62 @@
+/**
+ * A set of credentials that can be used to sign requests.
+ */
+export interface Credentials {
+  accessKey: string;
+  secretKey: string;
+  /** If using temporary credentials, a session token is required. Otherwise you don't need this. */
+  sessionToken?: string;
+  /** When these credentials stop working, if they are temporary. */
+  expiration?: Date;
+}
+
+/**
+ * A function that can be called to get (possibly new) credentials, e.g. by fetching temporary
+ * credentials from some other service.
+ *
+ * The client caches whatever this returns, and only calls it again shortly before the credentials'
+ * `expiration`. Credentials without an `expiration` are cached for as long as the client exists.
+ */
+export type CredentialProvider = () => Promise<Credentials>;
+
+/**
+ * How long before credentials expire that we start refreshing them. This leaves time for the refresh
+ * itself, and for requests signed just before the refresh to arrive at the server.
+ */
+const defaultRefreshMarginMs = 5 * 60 * 1000;
+
+/**
+ * Caches the credentials returned by a `CredentialProvider`, and refreshes them shortly before they
+ * expire. If several requests need credentials while a refresh is underway, they all share it.
+ */
+export class CredentialCache {
+  #current: Credentials | undefined;
+  #pending: Promise<Credentials> | undefined;
+
+  constructor(
+    private readonly provider: CredentialProvider,
+    private readonly refreshMarginMs = defaultRefreshMarginMs,
+  ) {}
+
+  /** Get the current credentials, calling the provider first if we have none or they're about to expire. */
+  get(): Promise<Credentials> {
+    if (this.#current && !this.#needsRefresh(this.#current)) {
+      return Promise.resolve(this.#current);
+    }
+    if (!this.#pending) {
+      this.#pending = this.provider().then((credentials) => {
+        this.#current = credentials;
+        return credentials;
+      }).finally(() => {
+        // If the provider failed, the next call will simply try again.
+        this.#pending = undefined;
+      });
+    }
+    return this.#pending;
+  }
+
+  #needsRefresh(credentials: Credentials): boolean {
+    return credentials.expiration !== undefined &&
+      credentials.expiration.getTime() - this.refreshMarginMs <= Date.now();
+  }
+}
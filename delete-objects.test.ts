@@ -0,0 +1,197 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { assertStringIncludes } from "@std/assert/string-includes";
+import { contentMd5 } from "./checksums.ts";
+import * as errors from "./errors.ts";
+import { type FakeRequest, testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+/** A fake DeleteObjects response, which reports that every key in the request was deleted. */
+function deleteEverything(request: FakeRequest): Response {
+  const keys = [...request.body.matchAll(/<Key>(.*?)<\/Key>/g)].map((m) => m[1]);
+  return new Response(
+    `<DeleteResult>${keys.map((key) => `<Deleted><Key>${key}</Key></Deleted>`).join("")}</DeleteResult>`,
+  );
+}
+
+Deno.test({
+  name: "deleteObjects() deletes up to 1,000 objects per request",
+  fn: async () => {
+    async function* keys() {
+      for (let i = 0; i < 2_500; i++) {
+        yield `file-${i}.txt`;
+      }
+    }
+    await withFakeFetch(deleteEverything, async (requests) => {
+      const results = await Array.fromAsync(client.deleteObjects(keys()));
+      assertEquals(results.length, 2_500);
+      assertEquals(results[0], { key: "file-0.txt", deleted: true, deleteMarker: false });
+      assertEquals(requests.length, 3);
+      assertEquals(requests[0].method, "POST");
+      assertEquals(requests[0].url.pathname, "/test-bucket/");
+      assertEquals(requests[0].url.search, "?delete");
+      assertEquals(requests[2].body.match(/<Object>/g)?.length, 500);
+      // The body's checksum is required:
+      const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(requests[0].body)));
+      assertEquals(requests[0].headers.get("x-amz-checksum-sha256"), btoa(String.fromCharCode(...digest)));
+      // Content-MD5 is only sent if it's asked for:
+      assertEquals(requests[0].headers.has("Content-MD5"), false);
+    });
+  },
+});
+
+Deno.test({
+  name: "deleteObjects() escapes keys and reports the outcome for each object",
+  fn: async () => {
+    await withFakeFetch(() =>
+      new Response(`<?xml version="1.0" encoding="UTF-8"?>
+        <DeleteResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+          <Deleted><Key>a &amp; &lt;b&gt;.txt</Key></Deleted>
+          <Deleted><Key>v.txt</Key><VersionId>v1</VersionId><DeleteMarker>true</DeleteMarker>
+            <DeleteMarkerVersionId>v1</DeleteMarkerVersionId></Deleted>
+          <Error><Key>locked.txt</Key><Code>AccessDenied</Code><Message>Access Denied</Message></Error>
+        </DeleteResult>`), async (requests) => {
+      const results = await Array.fromAsync(
+        client.deleteObjects(["a & <b>.txt", { key: "v.txt", versionId: "v1" }, "locked.txt"], {
+          governanceBypass: true,
+          integrity: "md5",
+        }),
+      );
+      assertStringIncludes(requests[0].body, "<Object><Key>a &amp; &lt;b&gt;.txt</Key></Object>");
+      assertStringIncludes(requests[0].body, "<Object><Key>v.txt</Key><VersionId>v1</VersionId></Object>");
+      assertEquals(requests[0].headers.get("X-Amz-Bypass-Governance-Retention"), "true");
+      assertEquals(requests[0].headers.get("Content-MD5"), contentMd5(new TextEncoder().encode(requests[0].body)));
+      assertEquals(results, [
+        { key: "a & <b>.txt", deleted: true, deleteMarker: false },
+        { key: "v.txt", versionId: "v1", deleted: true, deleteMarker: true, deleteMarkerVersionId: "v1" },
+        { key: "locked.txt", deleted: false, code: "AccessDenied", message: "Access Denied" },
+      ]);
+    });
+  },
+});
+
+Deno.test({
+  name: "deleteObjects() with no objects makes no requests",
+  fn: async () => {
+    await withFakeFetch(deleteEverything, async (requests) => {
+      assertEquals(await Array.fromAsync(client.deleteObjects([])), []);
+      assertEquals(requests.length, 0);
+    });
+    await assertRejects(() => Array.fromAsync(client.deleteObjects([""])), errors.InvalidObjectNameError);
+  },
+});
+
+/**
+ * A fake bucket holding `keys`, which handles ListObjectsV2 in pages of 1,000 keys, and DeleteObjects.
+ * Keys containing "locked" can't be deleted.
+ */
+function fakeBucket(keys: string[]) {
+  return (request: FakeRequest): Response => {
+    if (request.method === "POST") {
+      const requested = [...request.body.matchAll(/<Key>(.*?)<\/Key>/g)].map((m) => m[1]);
+      return new Response(
+        `<DeleteResult>${
+          requested.map((key) =>
+            key.includes("locked")
+              ? `<Error><Key>${key}</Key><Code>AccessDenied</Code><Message>Access Denied</Message></Error>`
+              : `<Deleted><Key>${key}</Key></Deleted>`
+          ).join("")
+        }</DeleteResult>`,
+      );
+    }
+    const prefix = request.url.searchParams.get("prefix") ?? "";
+    const matching = keys.filter((key) => key.startsWith(prefix));
+    const start = Number(request.url.searchParams.get("continuation-token") ?? 0);
+    const page = matching.slice(start, start + 1_000);
+    const isTruncated = start + 1_000 < matching.length;
+    return new Response(
+      `<ListBucketResult>
+        <IsTruncated>${isTruncated}</IsTruncated>
+        ${isTruncated ? `<NextContinuationToken>${start + 1_000}</NextContinuationToken>` : ""}
+        ${page.map((key) => `<Contents><Key>${key}</Key><Size>1</Size></Contents>`).join("")}
+      </ListBucketResult>`,
+    );
+  };
+}
+
+Deno.test({
+  name: "removePrefix() deletes everything under a prefix, in batches",
+  fn: async () => {
+    const keys = [
+      ...Array.from({ length: 2_499 }, (_, i) => `tenants/123/file-${String(i).padStart(4, "0")}.txt`),
+      "tenants/123/locked.txt",
+      "tenants/456/other.txt",
+    ];
+    await withFakeFetch(fakeBucket(keys), async (requests) => {
+      const result = await client.removePrefix("tenants/123/", { concurrency: 2 });
+      assertEquals(result.found, 2_500);
+      assertEquals(result.deleted, 2_499);
+      assertEquals(result.failed, [
+        { key: "tenants/123/locked.txt", deleted: false, code: "AccessDenied", message: "Access Denied" },
+      ]);
+      assertEquals(requests.filter((r) => r.method === "GET").length, 3);
+      assertEquals(requests.filter((r) => r.method === "POST").length, 3);
+      assertEquals(requests.some((r) => r.body.includes("tenants/456/")), false);
+    });
+  },
+});
+
+Deno.test({
+  name: "removePrefix() dry run only counts the objects",
+  fn: async () => {
+    await withFakeFetch(fakeBucket(["a/1.txt", "a/2.txt", "b/1.txt"]), async (requests) => {
+      const result = await client.removePrefix("a/", { dryRun: true });
+      assertEquals(result, { found: 2, deleted: 0, failed: [] });
+      assertEquals(requests.filter((r) => r.method === "POST").length, 0);
+    });
+  },
+});
+
+Deno.test({
+  name: "removePrefix() can delete every version of each object",
+  fn: async () => {
+    await withFakeFetch((request) => {
+      if (request.method === "POST") {
+        return deleteEverything(request);
+      }
+      return new Response(`<ListVersionsResult>
+        <IsTruncated>false</IsTruncated>
+        <Version><Key>a/1.txt</Key><VersionId>v2</VersionId><IsLatest>true</IsLatest><Size>1</Size></Version>
+        <Version><Key>a/1.txt</Key><VersionId>v1</VersionId><IsLatest>false</IsLatest><Size>1</Size></Version>
+        <DeleteMarker><Key>a/2.txt</Key><VersionId>v3</VersionId><IsLatest>true</IsLatest></DeleteMarker>
+      </ListVersionsResult>`);
+    }, async (requests) => {
+      const result = await client.removePrefix("a/", { includeVersions: true });
+      assertEquals(result, { found: 3, deleted: 3, failed: [] });
+      assertEquals(requests[0].url.searchParams.has("versions"), true);
+      assertStringIncludes(requests[1].body, "<Object><Key>a/1.txt</Key><VersionId>v1</VersionId></Object>");
+      assertStringIncludes(requests[1].body, "<Object><Key>a/2.txt</Key><VersionId>v3</VersionId></Object>");
+    });
+  },
+});
+
+Deno.test({
+  name: "removePrefix() stops if a whole request fails",
+  fn: async () => {
+    const keys = Array.from({ length: 5_000 }, (_, i) => `x/${String(i).padStart(4, "0")}`);
+    await withFakeFetch((request) => {
+      if (request.method === "POST") {
+        return new Response("<Error><Code>AccessDenied</Code><Message>No</Message></Error>", { status: 403 });
+      }
+      return fakeBucket(keys)(request);
+    }, async (requests) => {
+      await assertRejects(() => client.removePrefix("x/", { concurrency: 1 }), errors.ServerError, "No");
+      assertEquals(requests.filter((r) => r.method === "POST").length, 1);
+    });
+  },
+});
+
+Deno.test({
+  name: "removePrefix() doesn't accept an empty prefix",
+  fn: async () => {
+    await withFakeFetch(fakeBucket(["a/1.txt"]), async (requests) => {
+      await assertRejects(() => client.removePrefix(""), errors.InvalidArgumentError);
+      await assertRejects(() => client.removePrefix("", { includeVersions: true }), errors.InvalidArgumentError);
+      assertEquals(requests.length, 0);
+    });
+  },
+});
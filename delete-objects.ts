@@ -0,0 +1,264 @@
+/**
+ * @module
+ * Delete many objects at once, using the DeleteObjects API, which deletes up to 1,000 objects per
+ * request. See https://docs.aws.amazon.com/AmazonS3/latest/API/API_DeleteObjects.html
+ *
+ * This also implements `removePrefix()`, which deletes every object under a prefix.
+ */
+
+import type { Client } from "./client.ts";
+import * as errors from "./errors.ts";
+import { encoder, escapeXml, isValidObjectName } from "./helpers.ts";
+import { listObjectVersions } from "./versions.ts";
+import { childText, parse as parseXML } from "./xml-parser.ts";
+
+/** The maximum number of objects that can be deleted in a single DeleteObjects request */
+export const maxKeysPerDeleteRequest = 1_000;
+
+/** An object to delete: either just its key, or its key and a specific version to delete */
+export type ObjectToDelete = string | { key: string; versionId?: string };
+
+/** The outcome of deleting one object with `deleteObjects()` */
+export type DeleteObjectResult =
+  | {
+    key: string;
+    versionId?: string;
+    deleted: true;
+    /** True if the deletion created a delete marker (in a versioned bucket), or deleted one. */
+    deleteMarker: boolean;
+    deleteMarkerVersionId?: string;
+  }
+  | {
+    key: string;
+    versionId?: string;
+    deleted: false;
+    /** The S3 error code, e.g. "AccessDenied" */
+    code: string;
+    message: string;
+  };
+
+/**
+ * Delete objects in batches of up to 1,000 per request, and yield the outcome for each object as
+ * each batch completes. An object that can't be deleted doesn't stop the others from being deleted;
+ * its result has `deleted: false` and the error from the server. (Errors with a whole request, such as
+ * a network failure or invalid credentials, are still thrown.)
+ */
+export async function* deleteObjects(
+  { client, bucketName, objects, governanceBypass, integrity, signal }: {
+    client: Client;
+    bucketName: string;
+    objects: Iterable<ObjectToDelete> | AsyncIterable<ObjectToDelete>;
+    governanceBypass?: boolean;
+    integrity?: "md5";
+    signal?: AbortSignal;
+  },
+): AsyncGenerator<DeleteObjectResult, void, undefined> {
+  let batch: { key: string; versionId?: string }[] = [];
+  for await (const object of objects) {
+    const { key, versionId } = typeof object === "string" ? { key: object, versionId: undefined } : object;
+    if (!isValidObjectName(key)) {
+      throw new errors.InvalidObjectNameError(key);
+    }
+    batch.push(versionId ? { key, versionId } : { key });
+    if (batch.length === maxKeysPerDeleteRequest) {
+      yield* await deleteBatch({ client, bucketName, batch, governanceBypass, integrity, signal });
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    yield* await deleteBatch({ client, bucketName, batch, governanceBypass, integrity, signal });
+  }
+}
+
+/** The default number of DeleteObjects requests that `removePrefix()` makes at once */
+export const defaultRemovePrefixConcurrency = 4;
+
+/** Options for `removePrefix()` */
+export interface RemovePrefixOptions {
+  bucketName?: string;
+  /** Only count the objects that would be deleted, without deleting them. */
+  dryRun?: boolean;
+  /**
+   * Delete every version of each object (and any delete markers), so that nothing under the prefix
+   * is left in a versioned bucket. Otherwise, deleting an object in a versioned bucket only adds a
+   * delete marker, and its previous versions are kept.
+   */
+  includeVersions?: boolean;
+  /** How many DeleteObjects requests (of up to 1,000 objects each) to make at once. Default: 4 */
+  concurrency?: number;
+  governanceBypass?: boolean;
+  /** Set to `"md5"` to send the `Content-MD5` of each request, which some S3-compatible servers require */
+  integrity?: "md5";
+  signal?: AbortSignal;
+}
+
+/** The result of `removePrefix()` */
+export interface RemovePrefixResult {
+  /** How many objects (or versions) were found under the prefix */
+  found: number;
+  /** How many of them were deleted. (Always 0 for a dry run.) */
+  deleted: number;
+  /** The objects that couldn't be deleted, with the reason for each */
+  failed: Extract<DeleteObjectResult, { deleted: false }>[];
+}
+
+/**
+ * Delete every object whose key starts with `prefix`, listing them and deleting them in batches of
+ * up to 1,000 objects per request, with several requests in flight at once. The prefix can't be
+ * empty, so that this can't be used to empty a whole bucket by mistake.
+ */
+export async function removePrefix(
+  { client, bucketName, prefix, ...options }: RemovePrefixOptions & {
+    client: Client;
+    bucketName: string;
+    prefix: string;
+  },
+): Promise<RemovePrefixResult> {
+  if (prefix === "") {
+    // An empty prefix matches every object, so this would empty the whole bucket.
+    throw new errors.InvalidArgumentError("prefix must not be empty.");
+  }
+  const concurrency = options.concurrency ?? defaultRemovePrefixConcurrency;
+  if (!(Number.isInteger(concurrency) && concurrency >= 1)) {
+    throw new errors.InvalidArgumentError(`concurrency must be a whole number, at least 1.`);
+  }
+  const { dryRun, includeVersions, governanceBypass, integrity } = options;
+  const result: RemovePrefixResult = { found: 0, deleted: 0, failed: [] };
+  /** Used to stop the listing and the other batches if any batch fails, as well as when `signal` is aborted. */
+  const controller = new AbortController();
+  const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+  const objects: AsyncIterable<{ key: string; versionId?: string }> = includeVersions
+    ? listVersionsToDelete({ client, bucketName, prefix, signal })
+    : client.listObjects({ bucketName, prefix, signal });
+
+  const inFlight = new Set<Promise<void>>();
+  /** If a whole DeleteObjects request fails, this is its error, which stops everything else. */
+  let batchError: { error: unknown } | undefined;
+  const startBatch = (batch: { key: string; versionId?: string }[]) => {
+    const request = deleteBatch({ client, bucketName, batch, governanceBypass, integrity, signal }).then((results) => {
+      for (const r of results) {
+        if (r.deleted) {
+          result.deleted++;
+        } else {
+          result.failed.push(r);
+        }
+      }
+    }, (error) => {
+      batchError ??= { error };
+      controller.abort(error);
+    }).finally(() => inFlight.delete(request));
+    inFlight.add(request);
+  };
+
+  try {
+    let batch: { key: string; versionId?: string }[] = [];
+    for await (const { key, versionId } of objects) {
+      result.found++;
+      if (dryRun) continue;
+      batch.push(versionId ? { key, versionId } : { key });
+      if (batch.length === maxKeysPerDeleteRequest) {
+        startBatch(batch);
+        batch = [];
+        if (inFlight.size >= concurrency) {
+          await Promise.race(inFlight);
+        }
+      }
+    }
+    if (batch.length > 0) {
+      startBatch(batch);
+    }
+    await Promise.all(inFlight);
+  } catch (err) {
+    controller.abort(err);
+    await Promise.all(inFlight);
+    throw batchError ? batchError.error : err;
+  }
+  if (batchError) {
+    throw batchError.error;
+  }
+  return result;
+}
+
+/** List every version and delete marker under `prefix`. (There are no common prefixes without a delimiter.) */
+async function* listVersionsToDelete(
+  options: { client: Client; bucketName: string; prefix: string; signal: AbortSignal },
+): AsyncGenerator<{ key: string; versionId: string }, void, undefined> {
+  for await (const entry of listObjectVersions(options)) {
+    if (entry.type !== "CommonPrefix") {
+      yield entry;
+    }
+  }
+}
+
+/** Delete up to 1,000 objects with a single DeleteObjects request. */
+async function deleteBatch(
+  { client, bucketName, batch, governanceBypass, integrity, signal }: {
+    client: Client;
+    bucketName: string;
+    batch: { key: string; versionId?: string }[];
+    governanceBypass?: boolean;
+    integrity?: "md5";
+    signal?: AbortSignal;
+  },
+): Promise<DeleteObjectResult[]> {
+  const payload = encoder.encode(`<?xml version="1.0" encoding="UTF-8"?>
+<Delete xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+${
+    batch.map(({ key, versionId }) =>
+      `  <Object><Key>${escapeXml(key)}</Key>${
+        versionId ? `<VersionId>${escapeXml(versionId)}</VersionId>` : ""
+      }</Object>`
+    ).join("\n")
+  }
+</Delete>`);
+  const headers = new Headers();
+  if (governanceBypass) {
+    headers.set("X-Amz-Bypass-Governance-Retention", "true");
+  }
+  const response = await client.makeRequest({
+    method: "POST",
+    bucketName,
+    objectName: "",
+    query: "delete",
+    headers,
+    payload,
+    checksumRequired: true,
+    integrity,
+    returnBody: true,
+    signal,
+  });
+  const responseText = await response.text();
+  // Example response:
+  // <DeleteResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+  //   <Deleted><Key>a.txt</Key></Deleted>
+  //   <Error><Key>b.txt</Key><Code>AccessDenied</Code><Message>Access Denied</Message></Error>
+  // </DeleteResult>
+  const root = parseXML(responseText);
+  if (root?.name !== "DeleteResult") {
+    throw new Error(`Unexpected response: ${responseText}`);
+  }
+  const results: DeleteObjectResult[] = [];
+  for (const element of root.children) {
+    const key = childText(element, "Key") ?? "";
+    const versionId = childText(element, "VersionId");
+    if (element.name === "Deleted") {
+      const deleteMarkerVersionId = childText(element, "DeleteMarkerVersionId");
+      results.push({
+        key,
+        ...(versionId ? { versionId } : {}),
+        deleted: true,
+        deleteMarker: childText(element, "DeleteMarker") === "true",
+        ...(deleteMarkerVersionId ? { deleteMarkerVersionId } : {}),
+      });
+    } else if (element.name === "Error") {
+      results.push({
+        key,
+        ...(versionId ? { versionId } : {}),
+        deleted: false,
+        code: childText(element, "Code") ?? "UnknownError",
+        message: childText(element, "Message") ?? "",
+      });
+    }
+  }
+  return results;
+}
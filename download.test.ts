@@ -0,0 +1,215 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import * as errors from "./errors.ts";
+import type { Progress } from "./progress.ts";
+import { type FakeRequest, testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+const encoder = new TextEncoder();
+
+/**
+ * Replace fetch() with a fake server that holds a single object, for the duration of `fn`.
+ * `object.etag` can be changed to simulate the object being replaced.
+ *
+ * Range requests are held until `batchSize` of them are waiting (or every range of the object has
+ * been requested), and then answered in reverse order of their offset, to check that the data is put
+ * back together in the right order.
+ */
+async function withFakeObject(
+  object: { data: string; etag: string },
+  { batchSize = 1 }: { batchSize?: number },
+  fn: (requests: FakeRequest[]) => Promise<void>,
+) {
+  let waiting: { offset: number; answer: () => void }[] = [];
+  let requestedBytes = 0;
+  await withFakeFetch(async ({ method, headers }) => {
+    const data = encoder.encode(object.data);
+    if (method === "HEAD") {
+      return new Response(null, {
+        headers: {
+          "Content-Length": `${data.length}`,
+          ETag: `"${object.etag}"`,
+          "Last-Modified": new Date().toUTCString(),
+        },
+      });
+    }
+    const [start, end] = headers.get("Range")!.replace("bytes=", "").split("-").map(Number);
+    requestedBytes += end + 1 - start;
+    await new Promise<void>((answer) => {
+      waiting.push({ offset: start, answer });
+      if (waiting.length === batchSize || requestedBytes === data.length) {
+        waiting.sort((a, b) => b.offset - a.offset).forEach((request) => request.answer());
+        waiting = [];
+      }
+    });
+    if (headers.get("If-Match") !== `"${object.etag}"`) {
+      return new Response("<Error><Code>PreconditionFailed</Code></Error>", { status: 412 });
+    }
+    return new Response(data.slice(start, end + 1), { status: 206 });
+  }, fn);
+}
+
+Deno.test({
+  name: "downloadObject() downloads ranges in parallel and returns them in order",
+  fn: async () => {
+    const object = { data: "abcdefghijklmnopqrstuvwxyz", etag: "etag-1" };
+    await withFakeObject(object, { batchSize: 3 }, async (requests) => {
+      const progress: Progress[] = [];
+      const stream = await client.downloadObject("letters.txt", {
+        partSize: 5,
+        concurrency: 3,
+        onProgress: (p) => progress.push(p),
+      });
+      assertEquals(await new Response(stream).text(), object.data);
+      assertEquals(requests.length, 1 + 6); // HEAD, then 6 ranges
+      // The requests for the ranges may be sent in any order:
+      assertEquals(requests.slice(1).map((r) => r.headers.get("Range")).sort(), [
+        "bytes=0-4",
+        "bytes=10-14",
+        "bytes=15-19",
+        "bytes=20-24",
+        "bytes=25-25",
+        "bytes=5-9",
+      ]);
+      assertEquals(progress.at(-1), { loaded: 26, total: 26 });
+    });
+  },
+});
+
+Deno.test({
+  name: "downloadObject() of an empty object",
+  fn: async () => {
+    await withFakeObject({ data: "", etag: "etag-1" }, {}, async (requests) => {
+      const stream = await client.downloadObject("empty.txt");
+      assertEquals(await new Response(stream).text(), "");
+      assertEquals(requests.length, 1);
+    });
+  },
+});
+
+Deno.test({
+  name: "downloadObject() fails if the object changes during the download",
+  fn: async () => {
+    const object = { data: "abcdefghijklmnopqrstuvwxyz", etag: "etag-1" };
+    await withFakeObject(object, {}, async () => {
+      const stream = await client.downloadObject("letters.txt", { partSize: 5, concurrency: 1 });
+      const reader = stream.getReader();
+      assertEquals(new TextDecoder().decode((await reader.read()).value), "abcde");
+      object.etag = "etag-2";
+      // The next range may already have been requested, but the download must fail before it ends:
+      await assertRejects(async () => {
+        while (!(await reader.read()).done);
+      }, errors.ObjectChangedError);
+    });
+  },
+});
+
+Deno.test({
+  name: "downloadObject() validates its options",
+  fn: async () => {
+    await assertRejects(() => client.downloadObject("letters.txt", { concurrency: 0 }), errors.InvalidArgumentError);
+  },
+});
+
+/**
+ * Replace fetch() with a fake server whose connections fail partway through the body. The n-th
+ * response fails after `failAfter[n]` bytes of the body (or doesn't fail, if there is no such entry).
+ */
+async function withFlakyObject(
+  object: { data: string; etag: string },
+  failAfter: number[],
+  fn: (requests: FakeRequest[]) => Promise<void>,
+) {
+  let responses = 0;
+  await withFakeFetch(({ headers }) => {
+    const failAt = failAfter[responses++];
+    const ifMatch = headers.get("If-Match");
+    if (ifMatch && ifMatch !== `"${object.etag}"`) {
+      return new Response("<Error><Code>PreconditionFailed</Code></Error>", { status: 412 });
+    }
+    const start = Number(headers.get("Range")?.match(/^bytes=(\d+)-$/)?.[1] ?? 0);
+    const data = encoder.encode(object.data).slice(start);
+    let sent = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (!sent) {
+          controller.enqueue(data.slice(0, failAt));
+          sent = true;
+        } else if (failAt === undefined) {
+          controller.close();
+        } else {
+          controller.error(new TypeError("Connection reset"));
+        }
+      },
+    });
+    return new Response(body, {
+      status: start ? 206 : 200,
+      headers: { "Content-Length": `${data.length}`, ...(object.etag ? { ETag: `"${object.etag}"` } : {}) },
+    });
+  }, fn);
+}
+
+Deno.test({
+  name: "getResumableObject() resumes the download from where it failed",
+  fn: async () => {
+    const object = { data: "abcdefghijklmnopqrstuvwxyz", etag: "etag-1" };
+    await withFlakyObject(object, [10, 5], async (requests) => {
+      const progress: Progress[] = [];
+      const stream = await client.getResumableObject("letters.txt", { onProgress: (p) => progress.push(p) });
+      assertEquals(await new Response(stream).text(), object.data);
+      assertEquals(requests.length, 3);
+      assertEquals(requests[1].headers.get("Range"), "bytes=10-");
+      assertEquals(requests[1].headers.get("If-Match"), `"etag-1"`);
+      assertEquals(requests[2].headers.get("Range"), "bytes=15-");
+      assertEquals(progress.at(-1), { loaded: 26, total: 26 });
+    });
+  },
+});
+
+Deno.test({
+  name: "getResumableObject() gives up after maxResumes",
+  fn: async () => {
+    const object = { data: "abcdefghijklmnopqrstuvwxyz", etag: "etag-1" };
+    await withFlakyObject(object, [1, 1, 1], async (requests) => {
+      const stream = await client.getResumableObject("letters.txt", { maxResumes: 2 });
+      await assertRejects(() => new Response(stream).text(), TypeError, "Connection reset");
+      assertEquals(requests.length, 3);
+    });
+  },
+});
+
+Deno.test({
+  name: "getResumableObject() doesn't resume if the connection fails after all of the data arrived",
+  fn: async () => {
+    const object = { data: "abcdefghijklmnopqrstuvwxyz", etag: "etag-1" };
+    await withFlakyObject(object, [26], async (requests) => {
+      const stream = await client.getResumableObject("letters.txt");
+      assertEquals(await new Response(stream).text(), object.data);
+      assertEquals(requests.length, 1);
+    });
+  },
+});
+
+Deno.test({
+  name: "getResumableObject() can't resume without an ETag",
+  fn: async () => {
+    const object = { data: "abcdefghijklmnopqrstuvwxyz", etag: "" };
+    await withFlakyObject(object, [10], async (requests) => {
+      const stream = await client.getResumableObject("letters.txt");
+      await assertRejects(() => new Response(stream).text(), TypeError, "Connection reset");
+      assertEquals(requests.length, 1);
+    });
+  },
+});
+
+Deno.test({
+  name: "getResumableObject() fails if the object changed before it could resume",
+  fn: async () => {
+    const object = { data: "abcdefghijklmnopqrstuvwxyz", etag: "etag-1" };
+    await withFlakyObject(object, [10], async () => {
+      const reader = (await client.getResumableObject("letters.txt")).getReader();
+      assertEquals(new TextDecoder().decode((await reader.read()).value), "abcdefghij");
+      object.etag = "etag-2";
+      await assertRejects(() => reader.read(), errors.ObjectChangedError);
+    });
+  },
+});
@@ -0,0 +1,230 @@
+/**
+ * @module
+ * Download large objects faster, by downloading several byte ranges of the object in parallel.
+ */
+
+import type { Client } from "./client.ts";
+import * as errors from "./errors.ts";
+import { sanitizeETag } from "./helpers.ts";
+import type { ProgressCallback } from "./progress.ts";
+
+/** The default size of each range that `downloadObject()` requests */
+export const defaultDownloadPartSize = 16 * 1024 * 1024;
+/** The default number of ranges that `downloadObject()` downloads at once */
+export const defaultDownloadConcurrency = 4;
+
+/** Options for `downloadObject()` */
+export interface DownloadOptions {
+  bucketName?: string;
+  versionId?: string;
+  /**
+   * The size of each range to request, in bytes. Each range that is being downloaded (or is waiting
+   * to be read from the stream) is held in memory. Default: 16MB
+   */
+  partSize?: number;
+  /** How many ranges to download at once. Default: 4 */
+  concurrency?: number;
+  signal?: AbortSignal;
+  /** Called as the data is read from the stream, with the number of bytes so far and the total size. */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Download an object using several ranged GET requests in parallel, and return its data as a stream,
+ * in order.
+ *
+ * Every range is requested with `If-Match` set to the ETag that the object had when the download
+ * started, so if the object is overwritten during the download, the stream fails with an
+ * `ObjectChangedError` instead of returning a mix of the old and new data.
+ */
+export async function downloadObject(
+  { client, objectName, ...options }: DownloadOptions & { client: Client; objectName: string },
+): Promise<ReadableStream<Uint8Array>> {
+  const partSize = options.partSize ?? defaultDownloadPartSize;
+  const concurrency = options.concurrency ?? defaultDownloadConcurrency;
+  if (!(partSize >= 1)) {
+    throw new errors.InvalidArgumentError(`partSize must be at least 1 byte.`);
+  }
+  if (!(Number.isInteger(concurrency) && concurrency >= 1)) {
+    throw new errors.InvalidArgumentError(`concurrency must be a whole number, at least 1.`);
+  }
+  const { bucketName, versionId, signal, onProgress } = options;
+  const { size, etag } = await client.statObject(objectName, { bucketName, versionId, signal });
+
+  /** Used to stop the ranges in flight if the stream is cancelled or fails, as well as when `signal` is aborted. */
+  const rangesController = new AbortController();
+  const rangeSignal = signal ? AbortSignal.any([signal, rangesController.signal]) : rangesController.signal;
+  const getRange = async (offset: number): Promise<Uint8Array> => {
+    try {
+      const response = await client.getPartialObject(objectName, {
+        offset,
+        length: Math.min(partSize, size - offset),
+        bucketName,
+        versionId,
+        ifMatch: etag,
+        signal: rangeSignal,
+      });
+      return new Uint8Array(await response.arrayBuffer());
+    } catch (err) {
+      throw err instanceof errors.PreconditionFailedError ? objectChanged(objectName, etag, err) : err;
+    }
+  };
+
+  /** The ranges that are being downloaded, in order. */
+  const ranges: Promise<Uint8Array>[] = [];
+  let nextOffset = 0;
+  let loaded = 0;
+  const startRanges = () => {
+    while (ranges.length < concurrency && nextOffset < size) {
+      const range = getRange(nextOffset);
+      // If the stream fails before we get to this range, its error will never be read; that's fine.
+      range.catch(() => {});
+      ranges.push(range);
+      nextOffset += partSize;
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start() {
+      startRanges();
+    },
+    async pull(controller) {
+      const range = ranges.shift();
+      if (!range) {
+        controller.close();
+        return;
+      }
+      let data: Uint8Array;
+      try {
+        data = await range;
+      } catch (err) {
+        rangesController.abort(err);
+        throw err;
+      }
+      startRanges();
+      controller.enqueue(data);
+      loaded += data.byteLength;
+      onProgress?.({ loaded, total: size });
+      if (ranges.length === 0) {
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      rangesController.abort(reason);
+    },
+  }, { highWaterMark: 0 });
+}
+
+/** The default number of times that `resumableDownload()` resumes a download after it fails */
+export const defaultMaxResumes = 5;
+
+/** Options for `resumableDownload()` */
+export interface ResumableDownloadOptions {
+  bucketName?: string;
+  versionId?: string;
+  /** How many times to resume the download, if the connection fails while the data is being read. Default: 5 */
+  maxResumes?: number;
+  signal?: AbortSignal;
+  /** Called as the data is read from the stream, with the number of bytes so far and the total size. */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Download an object as a stream which, if the connection fails partway through, makes a new request
+ * for the rest of the object (starting from the last byte it returned), and carries on from there.
+ *
+ * The new requests use `If-Match` with the object's original ETag, so if the object was changed in
+ * the meantime, the stream fails with an `ObjectChangedError`. If the server didn't return an ETag,
+ * the download can't be resumed safely, so the stream fails as soon as the connection does.
+ */
+export async function resumableDownload(
+  { client, objectName, ...options }: ResumableDownloadOptions & { client: Client; objectName: string },
+): Promise<ReadableStream<Uint8Array>> {
+  const maxResumes = options.maxResumes ?? defaultMaxResumes;
+  if (!(Number.isInteger(maxResumes) && maxResumes >= 0)) {
+    throw new errors.InvalidArgumentError(`maxResumes must be a whole number, at least 0.`);
+  }
+  const { bucketName, versionId, signal, onProgress } = options;
+  const response = await client.getObject(objectName, { bucketName, versionId, signal });
+  const etag = sanitizeETag(response.headers.get("ETag") ?? "");
+  const contentLength = response.headers.get("Content-Length");
+  const total = contentLength ? parseInt(contentLength, 10) : undefined;
+
+  let reader: ReadableStreamDefaultReader<Uint8Array> = response.body!.getReader();
+  let loaded = 0;
+  let resumes = 0;
+  /** Request the rest of the object, starting from the first byte we haven't returned yet */
+  const resume = async (): Promise<ReadableStreamDefaultReader<Uint8Array>> => {
+    let rest: Response;
+    try {
+      rest = await client.getPartialObject(objectName, {
+        offset: loaded,
+        length: 0,
+        bucketName,
+        versionId,
+        ifMatch: etag,
+        signal,
+      });
+    } catch (err) {
+      throw err instanceof errors.PreconditionFailedError ? objectChanged(objectName, etag, err) : err;
+    }
+    // In case the server ignores If-Match:
+    if (sanitizeETag(rest.headers.get("ETag") ?? etag) !== etag) {
+      await rest.body?.cancel();
+      throw objectChanged(objectName, etag);
+    }
+    return rest.body!.getReader();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (err) {
+          if (total !== undefined && loaded >= total) {
+            // The connection failed after all of the data had arrived, so there's nothing left to request.
+            controller.close();
+            return;
+          }
+          if (!etag || signal?.aborted || resumes >= maxResumes) {
+            throw err;
+          }
+          resumes++;
+          reader = await resume();
+          continue;
+        }
+        if (result.done) {
+          // If the server closed the connection early, the body may end without an error:
+          if (total !== undefined && loaded < total && etag && resumes < maxResumes) {
+            resumes++;
+            reader = await resume();
+            continue;
+          }
+          controller.close();
+          return;
+        }
+        controller.enqueue(result.value);
+        loaded += result.value.byteLength;
+        onProgress?.({ loaded, total });
+        return;
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+}
+
+/** The error to throw when the object doesn't have the same ETag as when the download started */
+function objectChanged(
+  objectName: string,
+  etag: string,
+  cause?: errors.PreconditionFailedError,
+): errors.ObjectChangedError {
+  return new errors.ObjectChangedError(
+    `The object "${objectName}" was changed while it was being downloaded (its ETag is no longer "${etag}").`,
+    cause ? { cause } : undefined,
+  );
+}
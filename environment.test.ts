@@ -0,0 +1,208 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { Client } from "./client.ts";
+import { clientOptionsFromEnvironment, loadSharedConfig, parseIni, resolveProfile } from "./environment.ts";
+import * as errors from "./errors.ts";
+
+const credentialsFile = `
+# This is a comment
+[default]
+aws_access_key_id = AKIA_DEFAULT
+aws_secret_access_key = default/secret#with+symbols
+
+[dev]
+aws_access_key_id=AKIA_DEV
+aws_secret_access_key=dev-secret ; trailing comment
+aws_session_token = dev-token
+`;
+
+const configFile = `
+[default]
+region = us-west-2
+
+[profile dev]
+region = eu-north-1
+s3 =
+  endpoint_url = http://localhost:9000
+  addressing_style = path
+
+[profile other]
+region = ca-central-1
+endpoint_url = https://other.example.com
+`;
+
+/** A fake file system containing the shared config files, at their default locations. */
+function fakeReadFile(files: Record<string, string> = {
+  "/home/test/.aws/credentials": credentialsFile,
+  "/home/test/.aws/config": configFile,
+}) {
+  return (path: string) => Promise.resolve(files[path]);
+}
+
+Deno.test({
+  name: "parseIni",
+  fn: () => {
+    assertEquals(parseIni(configFile), {
+      "default": { region: "us-west-2" },
+      "profile dev": {
+        region: "eu-north-1",
+        s3: "",
+        "s3.endpoint_url": "http://localhost:9000",
+        "s3.addressing_style": "path",
+      },
+      "profile other": { region: "ca-central-1", endpoint_url: "https://other.example.com" },
+    });
+    // A '#' is only a comment if it's at the start of the value or preceded by whitespace:
+    assertEquals(parseIni(credentialsFile)["default"]["aws_secret_access_key"], "default/secret#with+symbols");
+    assertEquals(parseIni(credentialsFile)["dev"]["aws_secret_access_key"], "dev-secret");
+    // Settings outside of any section are ignored:
+    assertEquals(parseIni("key = value\n[s]\nk = v"), { s: { k: "v" } });
+  },
+});
+
+Deno.test({
+  name: "resolveProfile",
+  fn: () => {
+    const files = { credentials: credentialsFile, config: configFile };
+    assertEquals(resolveProfile(files, "default"), {
+      accessKey: "AKIA_DEFAULT",
+      secretKey: "default/secret#with+symbols",
+      sessionToken: undefined,
+      region: "us-west-2",
+      endpointUrl: undefined,
+    });
+    assertEquals(resolveProfile(files, "dev"), {
+      accessKey: "AKIA_DEV",
+      secretKey: "dev-secret",
+      sessionToken: "dev-token",
+      region: "eu-north-1",
+      endpointUrl: "http://localhost:9000",
+    });
+    // A profile can exist in only one of the files:
+    assertEquals(resolveProfile(files, "other").endpointUrl, "https://other.example.com");
+    assertEquals(resolveProfile(files, "other").accessKey, undefined);
+    // In the config file, only "default" may be written without the "profile" prefix:
+    assertEquals(resolveProfile({ config: "[dev]\nregion = x" }, "dev").region, undefined);
+  },
+});
+
+Deno.test({
+  name: "loadSharedConfig() finds the files and the profile using the environment variables",
+  fn: async () => {
+    const readFile = fakeReadFile();
+    assertEquals((await loadSharedConfig({ env: { HOME: "/home/test" }, readFile })).region, "us-west-2");
+    assertEquals(
+      (await loadSharedConfig({ env: { HOME: "/home/test", AWS_PROFILE: "dev" }, readFile })).region,
+      "eu-north-1",
+    );
+    // An explicit profile beats AWS_PROFILE:
+    assertEquals(
+      (await loadSharedConfig({ env: { HOME: "/home/test", AWS_PROFILE: "dev" }, profile: "other", readFile }))
+        .region,
+      "ca-central-1",
+    );
+    // The file locations can be changed:
+    const moved = fakeReadFile({ "/etc/aws-config": "[default]\nregion = moved-region" });
+    assertEquals(
+      (await loadSharedConfig({ env: { HOME: "/home/test", AWS_CONFIG_FILE: "/etc/aws-config" }, readFile: moved }))
+        .region,
+      "moved-region",
+    );
+    // And it's fine if there are no files at all:
+    assertEquals((await loadSharedConfig({ env: {}, readFile: fakeReadFile({}) })).region, undefined);
+  },
+});
+
+Deno.test({
+  name: "clientOptionsFromEnvironment() prefers explicit options, then environment variables, then the shared files",
+  fn: async (t) => {
+    const readFile = fakeReadFile();
+
+    await t.step("shared files only", async () => {
+      assertEquals(await clientOptionsFromEnvironment({ env: { HOME: "/home/test", AWS_PROFILE: "dev" }, readFile }), {
+        endPoint: "http://localhost:9000",
+        region: "eu-north-1",
+        accessKey: "AKIA_DEV",
+        secretKey: "dev-secret",
+        sessionToken: "dev-token",
+      });
+    });
+
+    await t.step("environment variables", async () => {
+      const env = {
+        HOME: "/home/test",
+        AWS_PROFILE: "dev",
+        AWS_ACCESS_KEY_ID: "AKIA_ENV",
+        AWS_SECRET_ACCESS_KEY: "env-secret",
+        AWS_REGION: "ap-south-1",
+        AWS_ENDPOINT_URL_S3: "https://s3.env.example.com",
+      };
+      assertEquals(await clientOptionsFromEnvironment({ env, readFile }), {
+        endPoint: "https://s3.env.example.com",
+        region: "ap-south-1",
+        accessKey: "AKIA_ENV",
+        secretKey: "env-secret",
+        // The session token from the profile is NOT mixed in with credentials from the environment:
+        sessionToken: undefined,
+      });
+    });
+
+    await t.step("explicit options", async () => {
+      const env = { HOME: "/home/test", AWS_ACCESS_KEY_ID: "AKIA_ENV", AWS_SECRET_ACCESS_KEY: "env-secret" };
+      const options = await clientOptionsFromEnvironment({ env, readFile, region: "local", bucket: "my-bucket" });
+      assertEquals(options.region, "local");
+      assertEquals(options.bucket, "my-bucket");
+      // With no endpoint configured anywhere, we use the AWS endpoint for the region:
+      assertEquals(options.endPoint, "https://s3.local.amazonaws.com");
+      assertEquals(options.accessKey, "AKIA_ENV");
+      // If credentials are passed in, none are loaded:
+      const credentials = () => Promise.resolve({ accessKey: "k", secretKey: "s" });
+      const withProvider = await clientOptionsFromEnvironment({ env, readFile, credentials });
+      assertEquals(withProvider.credentials, credentials);
+      assertEquals(withProvider.accessKey, undefined);
+    });
+
+    await t.step("web identity", async () => {
+      const env = {
+        AWS_REGION: "us-east-1",
+        AWS_ROLE_ARN: "arn:aws:iam::123456789012:role/web",
+        AWS_WEB_IDENTITY_TOKEN_FILE: "/var/run/secrets/eks.amazonaws.com/serviceaccount/token",
+      };
+      const options = await clientOptionsFromEnvironment({ env, readFile: fakeReadFile({}) });
+      assertEquals(typeof options.credentials, "function");
+      assertEquals(options.accessKey, undefined);
+    });
+
+    await t.step("container credentials", async () => {
+      const env = { AWS_REGION: "us-east-1", AWS_CONTAINER_CREDENTIALS_RELATIVE_URI: "/v2/credentials/abc" };
+      const options = await clientOptionsFromEnvironment({ env, readFile: fakeReadFile({}) });
+      assertEquals(typeof options.credentials, "function");
+      assertEquals(options.accessKey, undefined);
+    });
+
+    await t.step("no region anywhere", async () => {
+      await assertRejects(
+        () => clientOptionsFromEnvironment({ env: {}, readFile: fakeReadFile({}) }),
+        errors.InvalidArgumentError,
+        "Unable to determine the region",
+      );
+    });
+  },
+});
+
+Deno.test({
+  name: "Client.fromEnvironment() creates a configured client",
+  fn: async () => {
+    const client = await Client.fromEnvironment({
+      env: { HOME: "/home/test", AWS_PROFILE: "dev" },
+      readFile: fakeReadFile(),
+      bucket: "dev-bucket",
+    });
+    assertEquals(client.host, "localhost:9000");
+    assertEquals(client.protocol, "http:");
+    assertEquals(client.region, "eu-north-1");
+    assertEquals(client.accessKey, "AKIA_DEV");
+    assertEquals(client.sessionToken, "dev-token");
+    assertEquals(client.defaultBucket, "dev-bucket");
+  },
+});
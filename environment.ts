@@ -0,0 +1,175 @@
+/**
+ * @module
+ * Load client configuration from the standard AWS environment variables and the shared
+ * `~/.aws/credentials` and `~/.aws/config` files.
+ * https://docs.aws.amazon.com/sdkref/latest/guide/file-format.html
+ */
+
+import type { ClientOptions } from "./client.ts";
+import * as errors from "./errors.ts";
+import { getEnvironment, readTextFile } from "./helpers.ts";
+import { containerCredentials } from "./metadata-credentials.ts";
+import { assumeRoleWithWebIdentity } from "./sts.ts";
+
+/** The settings we understand from one profile of the shared config/credentials files. */
+export interface SharedConfigProfile {
+  accessKey?: string;
+  secretKey?: string;
+  sessionToken?: string;
+  region?: string;
+  endpointUrl?: string;
+}
+
+/** Options for loading configuration from the environment. */
+export interface EnvironmentOptions {
+  /** Which profile to use from the shared config files. Default: `AWS_PROFILE`, or else "default". */
+  profile?: string;
+  /** The environment variables to use. Default: the real environment (`process.env`). */
+  env?: Record<string, string | undefined>;
+  /**
+   * How to read the shared config files; should return undefined if the file doesn't exist.
+   * Default: read them from the file system. Override this for runtimes without `node:fs`, or in tests.
+   */
+  readFile?: (path: string) => Promise<string | undefined>;
+}
+
+/**
+ * Parse an INI file like `~/.aws/credentials` or `~/.aws/config` into its sections.
+ *
+ * Indented lines following a setting with no value are nested settings, as in
+ * ```ini
+ * [profile dev]
+ * s3 =
+ *   endpoint_url = http://localhost:9000
+ * ```
+ * and are returned with a dotted key, e.g. `"s3.endpoint_url"`.
+ */
+export function parseIni(text: string): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let section: Record<string, string> | undefined;
+  /** The setting that nested settings belong to, if we're currently reading some. */
+  let parentKey: string | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+    const sectionMatch = line.match(/^\[\s*([^\]]*?)\s*\]$/);
+    if (sectionMatch) {
+      section = sections[sectionMatch[1]] ??= {};
+      parentKey = undefined;
+      continue;
+    }
+    const equals = line.indexOf("=");
+    if (section === undefined || equals === -1) {
+      continue; // Not a setting we can make sense of; the AWS SDKs ignore these too.
+    }
+    const key = line.slice(0, equals).trim().toLowerCase();
+    // Values can have trailing comments, but only when preceded by whitespace (a "#" can be part of a secret key).
+    const value = line.slice(equals + 1).replace(/\s[#;].*$/, "").trim();
+    const isNested = parentKey !== undefined && /^\s/.test(rawLine);
+    if (isNested) {
+      section[`${parentKey}.${key}`] = value;
+    } else {
+      section[key] = value;
+      parentKey = value === "" ? key : undefined;
+    }
+  }
+  return sections;
+}
+
+/**
+ * Get the settings for the named profile, given the contents of the shared credentials and config
+ * files. Where both files have the same setting, the credentials file wins.
+ */
+export function resolveProfile(
+  files: { credentials?: string; config?: string },
+  profile: string,
+): SharedConfigProfile {
+  const credentialsSections = parseIni(files.credentials ?? "");
+  const configSections = parseIni(files.config ?? "");
+  // In the config file, profiles other than "default" are named like [profile foo]
+  const settings: Record<string, string> = {
+    ...(profile === "default" ? configSections["default"] : undefined),
+    ...configSections[`profile ${profile}`],
+    ...credentialsSections[profile],
+  };
+  return {
+    accessKey: settings["aws_access_key_id"] || undefined,
+    secretKey: settings["aws_secret_access_key"] || undefined,
+    sessionToken: settings["aws_session_token"] || undefined,
+    region: settings["region"] || undefined,
+    endpointUrl: settings["s3.endpoint_url"] || settings["endpoint_url"] || undefined,
+  };
+}
+
+/**
+ * Read the selected profile from the shared credentials and config files. Files that don't exist are
+ * treated as empty.
+ */
+export async function loadSharedConfig(options: EnvironmentOptions = {}): Promise<SharedConfigProfile> {
+  const env = options.env ?? getEnvironment();
+  const readFile = options.readFile ?? readTextFile;
+  const profile = options.profile ?? env.AWS_PROFILE ?? "default";
+  const home = env.HOME ?? env.USERPROFILE ?? "";
+  const expandHome = (path: string) => path.startsWith("~/") ? home + path.slice(1) : path;
+
+  const [credentials, config] = await Promise.all([
+    readFile(expandHome(env.AWS_SHARED_CREDENTIALS_FILE ?? "~/.aws/credentials")),
+    readFile(expandHome(env.AWS_CONFIG_FILE ?? "~/.aws/config")),
+  ]);
+  return resolveProfile({ credentials, config }, profile);
+}
+
+/**
+ * Build the options for a client from the standard AWS environment variables (`AWS_ACCESS_KEY_ID`,
+ * `AWS_SECRET_ACCESS_KEY`, `AWS_SESSION_TOKEN`, `AWS_REGION`, `AWS_ENDPOINT_URL_S3`, ...), falling
+ * back to the profile selected by `AWS_PROFILE` in the shared config files. If neither has any
+ * credentials but `AWS_ROLE_ARN` and `AWS_WEB_IDENTITY_TOKEN_FILE` are set (as on EKS), the client gets
+ * temporary credentials for that role from STS; or if `AWS_CONTAINER_CREDENTIALS_RELATIVE_URI` or
+ * `AWS_CONTAINER_CREDENTIALS_FULL_URI` is set (as on ECS), from the container credentials endpoint.
+ *
+ * The EC2 instance metadata service is never used automatically, since there is no way to tell if it's
+ * available without trying it. Pass `credentials: instanceMetadataCredentials()` to use it.
+ *
+ * Any options passed in take precedence over both.
+ */
+export async function clientOptionsFromEnvironment(
+  { profile, env = getEnvironment(), readFile, ...overrides }: Partial<ClientOptions> & EnvironmentOptions = {},
+): Promise<ClientOptions> {
+  const shared = await loadSharedConfig({ profile, env, readFile });
+
+  const region = overrides.region ?? env.AWS_REGION ?? env.AWS_DEFAULT_REGION ?? shared.region;
+  if (!region) {
+    throw new errors.InvalidArgumentError(
+      `Unable to determine the region. Set AWS_REGION, or "region" in the shared config file.`,
+    );
+  }
+  const endPoint = overrides.endPoint ?? env.AWS_ENDPOINT_URL_S3 ?? env.AWS_ENDPOINT_URL ?? shared.endpointUrl ??
+    `https://s3.${region}.amazonaws.com`;
+
+  const options: ClientOptions = { ...overrides, endPoint, region };
+  if (!overrides.credentials && !overrides.accessKey) {
+    // Credentials from the environment variables win over the shared files, but the two are never mixed.
+    const source = env.AWS_ACCESS_KEY_ID
+      ? { accessKey: env.AWS_ACCESS_KEY_ID, secretKey: env.AWS_SECRET_ACCESS_KEY, sessionToken: env.AWS_SESSION_TOKEN }
+      : shared;
+    if (source.accessKey) {
+      options.accessKey = source.accessKey;
+      options.secretKey = source.secretKey;
+      options.sessionToken = source.sessionToken || undefined;
+    } else if (env.AWS_ROLE_ARN && env.AWS_WEB_IDENTITY_TOKEN_FILE) {
+      options.credentials = assumeRoleWithWebIdentity({
+        roleArn: env.AWS_ROLE_ARN,
+        roleSessionName: env.AWS_ROLE_SESSION_NAME,
+        webIdentityTokenFile: env.AWS_WEB_IDENTITY_TOKEN_FILE,
+        region,
+        endpoint: env.AWS_ENDPOINT_URL_STS,
+      });
+    } else if (env.AWS_CONTAINER_CREDENTIALS_RELATIVE_URI || env.AWS_CONTAINER_CREDENTIALS_FULL_URI) {
+      options.credentials = containerCredentials({ env });
+    }
+  }
+  return options;
+}
@@ -72,6 +72,44 @@ export class InvalidExpiryError extends S3Error {
   }
 }
 
+/**
+ * The server didn't respond within the client's `requestTimeout`. (If retries are enabled, this is
+ * only thrown once every attempt has timed out or failed.)
+ */
+export class RequestTimeoutError extends S3Error {}
+
+/**
+ * The request failed because of a network error, such as the connection being refused or reset,
+ * before a response was received. The error from `fetch()` is the `cause`.
+ */
+export class NetworkError extends S3Error {}
+
+/**
+ * A multi-part upload failed, and then aborting it failed too, so the parts that were already
+ * uploaded may still be stored (and billed) on the server until a lifecycle rule removes them, or
+ * until you abort the upload `uploadId` yourself. The error that made the upload fail is the
+ * `cause`, and the error from aborting it is `abortError`.
+ */
+export class UploadAbortFailedError extends S3Error {
+  readonly abortError: unknown;
+  readonly uploadId: string | undefined;
+
+  constructor(message: string, options: { cause?: unknown; abortError?: unknown; uploadId?: string } = {}) {
+    super(message, { cause: options.cause });
+    this.abortError = options.abortError;
+    this.uploadId = options.uploadId;
+  }
+}
+
+/** The object was changed (e.g. overwritten by another upload) while it was being downloaded. */
+export class ObjectChangedError extends S3Error {}
+
+/**
+ * The checksum of the data didn't match the checksum it was supposed to have, e.g. a download was
+ * corrupted on its way from the server.
+ */
+export class ChecksumMismatchError extends S3Error {}
+
 /** Any error thrown by the server */
 export class ServerError extends S3Error {
   readonly key: string | undefined;
@@ -93,14 +131,27 @@ export class ServerError extends S3Error {
   }
 }
 
+/**
+ * A precondition of the request wasn't met (HTTP 412), e.g. the object's ETag didn't match `ifMatch`,
+ * or an object already exists and `ifNoneMatch` was `"*"`.
+ */
+export class PreconditionFailedError extends ServerError {}
+
+/**
+ * The object hasn't been modified (HTTP 304): a read with `ifNoneMatch` or `ifModifiedSince`
+ * found the same version of the object that the caller already has.
+ */
+export class NotModifiedError extends ServerError {}
+
 /** Helper function to parse an error returned by the S3 server. */
 export async function parseServerError(response: Response): Promise<ServerError> {
+  const ErrorClass = response.status === 412 ? PreconditionFailedError : ServerError;
   try {
     const errorRoot = parseXML(await response.text());
     if (errorRoot?.name !== "Error") {
       throw new Error("Invalid root, expected <Error>");
     }
-    return new ServerError(
+    return new ErrorClass(
       response.status,
       childText(errorRoot, "Code") ?? "UnknownErrorCode",
       childText(errorRoot, "Message") ?? "The error message could not be determined.",
@@ -112,6 +163,10 @@ export async function parseServerError(response: Response): Promise<ServerError>
       },
     );
   } catch {
+    if (response.status === 412) {
+      // Responses to HEAD requests have no body to parse.
+      return new PreconditionFailedError(412, "PreconditionFailed", "At least one of the preconditions was not met.");
+    }
     return new ServerError(
       response.status,
       "UnrecognizedError",
@@ -1,6 +1,7 @@
 import { assertEquals } from "@std/assert/equals";
 import {
   bin2hex,
+  conditionHeaders,
   isValidBucketName,
   isValidObjectName,
   isValidPort,
@@ -132,8 +133,8 @@ Deno.test({
 Deno.test({
   name: "sanitizeETag",
   fn: () => {
-    // The two forms we actually receive: an ETag response header holds literal quotes, and an <ETag>
-    // from an XML body is still escaped, because the XML parser doesn't decode &#34; or &quot;.
+    // An ETag response header holds literal quotes, and an <ETag> from an XML body may still be
+    // escaped after the XML parser has decoded it, if the server escaped it twice.
     assertEquals(sanitizeETag(`"d41d8cd98f00b204e9800998ecf8427e"`), "d41d8cd98f00b204e9800998ecf8427e");
     assertEquals(sanitizeETag("&#34;4581589392ae60eafdb031f441858c7a-7&#34;"), "4581589392ae60eafdb031f441858c7a-7");
     assertEquals(sanitizeETag("&quot;abc&quot;"), "abc");
@@ -160,6 +161,23 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "conditionHeaders",
+  fn: () => {
+    const date = new Date("2017-08-11T17:26:34.935Z");
+    assertEquals(conditionHeaders({ ifMatch: "abc", ifNoneMatch: "*", ifUnmodifiedSince: date }), {
+      "If-Match": `"abc"`,
+      "If-None-Match": "*",
+      "If-Unmodified-Since": "Fri, 11 Aug 2017 17:26:34 GMT",
+    });
+    // ETags that are already quoted, including weak ETags, are left as they are:
+    assertEquals(conditionHeaders({ ifMatch: `"abc"`, ifNoneMatch: `W/"abc"` }), {
+      "If-Match": `"abc"`,
+      "If-None-Match": `W/"abc"`,
+    });
+  },
+});
+
 Deno.test({
   name: "sha256digestHex",
   fn: async () => {
@@ -78,8 +78,9 @@ export function bin2hex(binary: Uint8Array) {
  * Strip the quotes that S3 wraps around an ETag value.
  *
  * How the quotes are written depends on where the ETag came from: an `ETag` response header holds
- * literal double quotes (`"abc"`), while an `<ETag>` read out of an XML response body is still
- * escaped (`&#34;abc&#34;`), because our XML parser only decodes `&lt;`, `&gt;` and `&amp;`.
+ * literal double quotes (`"abc"`), and so does an `<ETag>` read out of an XML response body once
+ * our XML parser has decoded it. Some servers escape the quotes twice, though (`&amp;#34;abc&amp;#34;`),
+ * which leaves `&#34;abc&#34;` after decoding.
  *
  * Only one quote is removed from each end, and only these three spellings are recognized: `"`,
  * `&quot;` and `&#34;`. Any quote in the middle of the value is left alone.
@@ -90,6 +91,23 @@ export function sanitizeETag(etag = "") {
   return etag.replace(/^(?:"|&quot;|&#34;)|(?:"|&quot;|&#34;)$/g, "");
 }
 
+/**
+ * Convert the conditions of a conditional request (see `ReadConditions` in client.ts) to its
+ * `If-*` headers. ETags are quoted if they aren't already, so the unquoted ETags that this client
+ * returns can be passed in as they are. Weak ETags (`W/"..."`) are left as they are.
+ */
+export function conditionHeaders(
+  conditions: { ifMatch?: string; ifNoneMatch?: string; ifModifiedSince?: Date; ifUnmodifiedSince?: Date },
+): Record<string, string> {
+  const quote = (etag: string) => etag === "*" || etag.startsWith(`"`) || etag.startsWith(`W/"`) ? etag : `"${etag}"`;
+  const headers: Record<string, string> = {};
+  if (conditions.ifMatch !== undefined) headers["If-Match"] = quote(conditions.ifMatch);
+  if (conditions.ifNoneMatch !== undefined) headers["If-None-Match"] = quote(conditions.ifNoneMatch);
+  if (conditions.ifModifiedSince) headers["If-Modified-Since"] = conditions.ifModifiedSince.toUTCString();
+  if (conditions.ifUnmodifiedSince) headers["If-Unmodified-Since"] = conditions.ifUnmodifiedSince.toUTCString();
+  return headers;
+}
+
 export function getVersionId(headers: Headers): string | null {
   return headers.get("x-amz-version-id") ?? null;
 }
@@ -105,8 +123,8 @@ export function makeDateShort(date: Date) {
   return makeDateLong(date).slice(0, 8);
 }
 
-export function getScope(region: string, date: Date) {
-  return `${makeDateShort(date)}/${region}/s3/aws4_request`;
+export function getScope(region: string, date: Date, service = "s3") {
+  return `${makeDateShort(date)}/${region}/${service}/aws4_request`;
 }
 
 export async function sha256digestHex(data: Uint8Array_ | string) {
@@ -115,3 +133,101 @@ export async function sha256digestHex(data: Uint8Array_ | string) {
   }
   return bin2hex(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
 }
+
+export async function sha256digestBase64(data: Uint8Array_ | string) {
+  if (!(data instanceof Uint8Array)) {
+    data = encoder.encode(data);
+  }
+  return bin2base64(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
+}
+
+/** Encode some bytes (e.g. a hash) in base64 */
+export function bin2base64(binary: Uint8Array) {
+  return btoa(String.fromCharCode(...binary));
+}
+
+/** Escape a string for use as the text of an XML element or the value of an attribute */
+export function escapeXml(value: string): string {
+  return value.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+/** The environment variables, where the runtime has them (Deno, Node and Bun all provide `process.env`). */
+export function getEnvironment(): Record<string, string | undefined> {
+  return (globalThis as { process?: { env: Record<string, string | undefined> } }).process?.env ?? {};
+}
+
+/**
+ * Read a text file, or return undefined if it doesn't exist.
+ *
+ * Only a few optional features need the file system, so "node:fs/promises" (which Deno, Node and Bun
+ * all provide) is loaded on demand. Its name is kept in a variable so that bundlers targeting browsers
+ * don't try to resolve it.
+ */
+export async function readTextFile(path: string): Promise<string | undefined> {
+  const fsModuleName = "node:fs/promises";
+  const fs: { readFile(path: string, encoding: "utf8"): Promise<string> } = await import(fsModuleName);
+  try {
+    return await fs.readFile(path, "utf8");
+  } catch (err: unknown) {
+    if ((err as { code?: string }).code === "ENOENT") {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Write a text file, replacing it if it exists. The data is written to a temporary file first and
+ * then renamed, so that the file is never left half-written if the process dies.
+ */
+export async function writeTextFile(path: string, data: string): Promise<void> {
+  const fsModuleName = "node:fs/promises";
+  const fs: {
+    writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+    rm(path: string, options: { force: boolean }): Promise<void>;
+  } = await import(fsModuleName);
+  // (The temporary file's name is unique, so that concurrent writes of the same file don't collide.)
+  const tempPath = `${path}.${crypto.randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data, "utf8");
+    await fs.rename(tempPath, path);
+  } catch (err) {
+    await fs.rm(tempPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Write a stream to a file, replacing the file if it exists. Like `writeTextFile()`, the data is
+ * written to a temporary file which is then renamed, so if the stream fails, the file isn't left
+ * with only part of the data.
+ */
+export async function writeStreamToFile(path: string, stream: ReadableStream<Uint8Array>): Promise<void> {
+  const fsModuleName = "node:fs/promises";
+  const fs: {
+    open(path: string, flags: "w"): Promise<{ write(data: Uint8Array): Promise<unknown>; close(): Promise<void> }>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+    rm(path: string, options: { force: boolean }): Promise<void>;
+  } = await import(fsModuleName);
+  const tempPath = `${path}.${crypto.randomUUID()}.tmp`;
+  const reader = stream.getReader();
+  try {
+    const file = await fs.open(tempPath, "w");
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await file.write(value);
+      }
+    } finally {
+      await file.close();
+    }
+    await fs.rename(tempPath, path);
+  } catch (err) {
+    await reader.cancel(err).catch(() => {});
+    await fs.rm(tempPath, { force: true });
+    throw err;
+  }
+}
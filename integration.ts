@@ -7,7 +7,7 @@ import { assert } from "@std/assert/assert";
 import { assertEquals } from "@std/assert/equals";
 import { assertInstanceOf } from "@std/assert/instance-of";
 import { assertRejects } from "@std/assert/rejects";
-import { S3Client, type S3CommonPrefix, S3Errors, type S3Object } from "./mod.ts";
+import { S3Client, type S3CommonPrefix, S3CredentialProviders, S3Errors, type S3Object } from "./mod.ts";
 
 const config = {
   endPoint: "http://localhost:9000",
@@ -148,6 +148,43 @@ Deno.test({
   },
 });
 
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Multi-part upload methods
+
+Deno.test({
+  name: "the multi-part upload methods can be used to upload an object one part at a time",
+  fn: async () => {
+    const key = "test-multipart-methods.dat";
+    const { uploadId } = await client.createMultipartUpload(key, { metadata: { "Content-Type": "test/multipart" } });
+    const uploads = await Array.fromAsync(client.listMultipartUploads({ prefix: key }));
+    assertEquals(uploads.map((u) => u.uploadId), [uploadId]);
+
+    const part2 = await client.uploadPart(key, "second part", { uploadId, partNumber: 2 });
+    const part1 = await client.uploadPart(key, new Uint8Array(5 * 1024 * 1024).fill(1), { uploadId, partNumber: 1 });
+    const parts = await Array.fromAsync(client.listParts(key, { uploadId }));
+    assertEquals(parts.map((p) => [p.partNumber, p.size]), [[1, 5 * 1024 * 1024], [2, 11]]);
+
+    const result = await client.completeMultipartUpload(key, { uploadId, parts: [part2, part1] });
+    assert(result.etag.endsWith("-2"));
+    const stat = await client.statObject(key);
+    assertEquals(stat.size, 5 * 1024 * 1024 + 11);
+    assertEquals(stat.metadata["Content-Type"], "test/multipart");
+    await client.deleteObject(key);
+  },
+});
+
+Deno.test({
+  name: "abortMultipartUpload() discards an upload",
+  fn: async () => {
+    const key = "test-multipart-abort.dat";
+    const { uploadId } = await client.createMultipartUpload(key);
+    await client.uploadPart(key, "some data", { uploadId, partNumber: 1 });
+    await client.abortMultipartUpload(key, { uploadId });
+    const uploads = await Array.fromAsync(client.listMultipartUploads({ prefix: key }));
+    assertEquals(uploads, []);
+  },
+});
+
 ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // exists()
 
@@ -176,6 +213,53 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "deleteObjects() can delete many objects at once",
+  fn: async () => {
+    const keys = ["delete-many/a.txt", "delete-many/b & <c>.txt", "delete-many/'d'.txt"];
+    for (const key of keys) {
+      await client.putObject(key, "contents");
+    }
+    const results = await Array.fromAsync(client.deleteObjects(keys));
+    assertEquals(results.map((r) => [r.key, r.deleted]).sort(), keys.map((key) => [key, true]).sort());
+    for (const key of keys) {
+      assertEquals(await client.exists(key), false);
+    }
+  },
+});
+
+Deno.test({
+  name: "removePrefix() can delete everything under a prefix",
+  fn: async () => {
+    const keys = ["remove-prefix/a.txt", "remove-prefix/sub/b.txt", "remove-prefix-not/c.txt"];
+    for (const key of keys) {
+      await client.putObject(key, "contents");
+    }
+    assertEquals(await client.removePrefix("remove-prefix/", { dryRun: true }), { found: 2, deleted: 0, failed: [] });
+    assertEquals(await client.exists("remove-prefix/a.txt"), true);
+
+    assertEquals(await client.removePrefix("remove-prefix/"), { found: 2, deleted: 2, failed: [] });
+    assertEquals(await client.exists("remove-prefix/a.txt"), false);
+    assertEquals(await client.exists("remove-prefix/sub/b.txt"), false);
+    assertEquals(await client.exists("remove-prefix-not/c.txt"), true);
+    await client.deleteObject("remove-prefix-not/c.txt");
+  },
+});
+
+Deno.test({
+  name: "object tags can be set when uploading, and read, changed and removed later",
+  fn: async () => {
+    const key = "test-tagging.txt";
+    await client.putObject(key, "contents", { tags: { project: "apollo", "with space": "a&b" } });
+    assertEquals(await client.getObjectTagging(key), { project: "apollo", "with space": "a&b" });
+    await client.putObjectTagging(key, { project: "gemini" });
+    assertEquals(await client.getObjectTagging(key), { project: "gemini" });
+    await client.deleteObjectTagging(key);
+    assertEquals(await client.getObjectTagging(key), {});
+    await client.deleteObject(key);
+  },
+});
+
 ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // statObject()
 
@@ -334,6 +418,73 @@ Deno.test({
   },
 });
 
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Checksums
+
+Deno.test({
+  name: "objects can be uploaded with checksums, and verified when they're downloaded",
+  fn: async () => {
+    const key = "test-checksum.txt";
+    const small = await client.putObject(key, "checksummed data", { checksumAlgorithm: "SHA256" });
+    assert(small.checksum);
+    const response = await client.getObject(key, { verifyChecksum: true });
+    assertEquals(response.headers.get("x-amz-checksum-sha256"), small.checksum);
+    assertEquals(await response.text(), "checksummed data");
+
+    const partSize = 5 * 1024 * 1024;
+    const data = new Uint8Array(partSize + 1000).map((_, i) => i & 0xff);
+    const large = await client.putObject(key, data, { partSize, checksumAlgorithm: "CRC32C" });
+    assert(large.checksum);
+    const largeResponse = await client.getObject(key, { verifyChecksum: true });
+    assertEquals(new Uint8Array(await largeResponse.arrayBuffer()), data);
+    await client.deleteObject(key);
+  },
+});
+
+Deno.test({
+  name: "objects can be uploaded with a Content-MD5",
+  fn: async () => {
+    const key = "test-content-md5.bin";
+    const partSize = 5 * 1024 * 1024;
+    const data = new Uint8Array(partSize + 1000).map((_, i) => i & 0xff);
+    await client.putObject(key, "small data", { integrity: "md5" });
+    assertEquals(await client.getObject(key).then((r) => r.text()), "small data");
+    await client.putObject(key, data, { partSize, integrity: "md5" });
+    const response = await client.getObject(key);
+    assertEquals(new Uint8Array(await response.arrayBuffer()), data);
+    await client.deleteObject(key);
+  },
+});
+
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Conditional reads and writes
+
+Deno.test({
+  name: "conditional writes only replace the object if it hasn't changed",
+  fn: async () => {
+    const key = "test-conditional-write.json";
+    await client.deleteObject(key);
+    const { etag } = await client.putObject(key, `{"count":1}`, { ifNoneMatch: "*" });
+    await assertRejects(
+      () => client.putObject(key, `{"count":100}`, { ifNoneMatch: "*" }),
+      S3Errors.PreconditionFailedError,
+    );
+
+    const { etag: newEtag } = await client.putObject(key, `{"count":2}`, { ifMatch: etag });
+    // The object has changed since `etag`, so this fails:
+    await assertRejects(
+      () => client.putObject(key, `{"count":100}`, { ifMatch: etag }),
+      S3Errors.PreconditionFailedError,
+    );
+    assertEquals(await client.getObject(key).then((r) => r.json()), { count: 2 });
+
+    await assertRejects(() => client.getObject(key, { ifNoneMatch: newEtag }), S3Errors.NotModifiedError);
+    await assertRejects(() => client.statObject(key, { ifMatch: etag }), S3Errors.PreconditionFailedError);
+    assertEquals((await client.statObject(key, { ifMatch: newEtag })).etag, newEtag);
+    await client.deleteObject(key);
+  },
+});
+
 ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // getPresignedUrl() with extraHeaders
 
@@ -413,9 +564,7 @@ Deno.test({
       );
 
       // NOTE: We can't actually fetch the content using the presigned URL in this test
-      // because we don't have a valid session token.
-      // TODO: use the STS API to create and test with valid temporary credentials:
-      // https://github.com/minio/minio/blob/master/docs/sts/assume-role.md#sample-post-request
+      // because we don't have a valid session token. See the assumeRole() test for that.
     } finally {
       // Clean up
       await client.deleteObject(key);
@@ -423,6 +572,40 @@ Deno.test({
   },
 });
 
+////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
+// Temporary credentials from STS
+
+Deno.test({
+  name: "assumeRole() can get temporary credentials, which work for requests and presigned URLs",
+  fn: async () => {
+    // MinIO implements the STS API at the same endpoint as S3:
+    // https://github.com/minio/minio/blob/master/docs/sts/assume-role.md
+    const tempClient = new S3Client({
+      ...config,
+      accessKey: undefined,
+      secretKey: undefined,
+      credentials: S3CredentialProviders.assumeRole({
+        roleArn: "arn:xxx:xxx:xxx:xxxx", // MinIO ignores this
+        endpoint: config.endPoint,
+        region: config.region,
+        durationSeconds: 900,
+        credentials: { accessKey: config.accessKey, secretKey: config.secretKey },
+      }),
+    });
+    const key = "test-sts-credentials.txt";
+    const content = "Uploaded using temporary credentials";
+    await tempClient.putObject(key, content);
+    assertEquals(await tempClient.getObject(key).then((r) => r.text()), content);
+
+    // Presigned URLs include the session token, so they work too:
+    const presignedUrl = await tempClient.presignedGetObject(key);
+    assert(presignedUrl.includes("X-Amz-Security-Token="));
+    assertEquals(await fetch(presignedUrl).then((r) => r.text()), content);
+
+    await tempClient.deleteObject(key);
+  },
+});
+
 ////////////////////////////////////////////////////////////////////////////////////////////////////////////////////////
 // listObjects()
 
@@ -758,6 +941,128 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "bucket versioning can be enabled and suspended, and object versions listed",
+  fn: async () => {
+    const testBucketName = "test-versioning-bucket";
+    await client.makeBucket(testBucketName);
+    try {
+      assertEquals((await client.getBucketVersioning(testBucketName)).status, undefined);
+      await client.putBucketVersioning(testBucketName, { status: "Enabled" });
+      assertEquals((await client.getBucketVersioning(testBucketName)).status, "Enabled");
+
+      await client.putObject("versioned.txt", "v1", { bucketName: testBucketName });
+      await client.putObject("versioned.txt", "v2", { bucketName: testBucketName });
+      await client.deleteObject("versioned.txt", { bucketName: testBucketName });
+      const versions = await Array.fromAsync(client.listObjectVersions({ bucketName: testBucketName }));
+      assertEquals(versions.map((v) => v.type), ["DeleteMarker", "Version", "Version"]);
+
+      await client.putBucketVersioning(testBucketName, { status: "Suspended" });
+      assertEquals((await client.getBucketVersioning(testBucketName)).status, "Suspended");
+    } finally {
+      await client.removePrefix("", { bucketName: testBucketName, includeVersions: true });
+      await client.removeBucket(testBucketName);
+    }
+  },
+});
+
+Deno.test({
+  name: "a bucket policy can make a prefix publicly readable",
+  fn: async () => {
+    const testBucketName = "test-policy-bucket";
+    await client.makeBucket(testBucketName);
+    try {
+      assertEquals(await client.getBucketPolicy(testBucketName), undefined);
+      await client.putObject("public/file.txt", "public data", { bucketName: testBucketName });
+      await client.putObject("private/file.txt", "private data", { bucketName: testBucketName });
+      const policy = {
+        Version: "2012-10-17",
+        Statement: [{
+          Effect: "Allow" as const,
+          Principal: { AWS: ["*"] },
+          Action: ["s3:GetObject"],
+          Resource: [`arn:aws:s3:::${testBucketName}/public/*`],
+        }],
+      };
+      await client.putBucketPolicy(testBucketName, policy);
+      assertEquals((await client.getBucketPolicy(testBucketName))?.Statement.length, 1);
+
+      const publicResponse = await fetch(`${config.endPoint}/${testBucketName}/public/file.txt`);
+      assertEquals(await publicResponse.text(), "public data");
+      const privateResponse = await fetch(`${config.endPoint}/${testBucketName}/private/file.txt`);
+      await privateResponse.body?.cancel();
+      assertEquals(privateResponse.status, 403);
+
+      await client.deleteBucketPolicy(testBucketName);
+      assertEquals(await client.getBucketPolicy(testBucketName), undefined);
+    } finally {
+      await client.removePrefix("", { bucketName: testBucketName });
+      await client.removeBucket(testBucketName);
+    }
+  },
+});
+
+Deno.test({
+  name: "bucket lifecycle rules can be set, read and removed",
+  fn: async () => {
+    const testBucketName = "test-lifecycle-bucket";
+    await client.makeBucket(testBucketName);
+    try {
+      assertEquals(await client.getBucketLifecycle(testBucketName), []);
+      const rules = [
+        { id: "expire-tmp", status: "Enabled" as const, filter: { prefix: "tmp/" }, expiration: { days: 7 } },
+      ];
+      await client.putBucketLifecycle(testBucketName, rules);
+      assertEquals(await client.getBucketLifecycle(testBucketName), rules);
+      await client.deleteBucketLifecycle(testBucketName);
+      assertEquals(await client.getBucketLifecycle(testBucketName), []);
+    } finally {
+      await client.removeBucket(testBucketName);
+    }
+  },
+});
+
+Deno.test({
+  name: "Object Lock retention and legal holds protect objects from being deleted",
+  fn: async () => {
+    const testBucketName = "test-object-lock-bucket";
+    await client.makeBucket(testBucketName, { objectLocking: true });
+    try {
+      assertEquals(await client.getObjectLockConfiguration(testBucketName), { enabled: true });
+      await client.putObjectLockConfiguration(testBucketName, {
+        enabled: true,
+        defaultRetention: { mode: "GOVERNANCE", days: 1 },
+      });
+      assertEquals(await client.getObjectLockConfiguration(testBucketName), {
+        enabled: true,
+        defaultRetention: { mode: "GOVERNANCE", days: 1 },
+      });
+
+      const { versionId } = await client.putObject("locked.txt", "locked", { bucketName: testBucketName });
+      assert(versionId);
+      assertEquals((await client.getObjectRetention("locked.txt", { bucketName: testBucketName }))?.mode, "GOVERNANCE");
+      const retainUntilDate = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+      retainUntilDate.setMilliseconds(0);
+      await client.putObjectRetention("locked.txt", { mode: "GOVERNANCE", retainUntilDate }, {
+        bucketName: testBucketName,
+      });
+      assertEquals(await client.getObjectRetention("locked.txt", { bucketName: testBucketName }), {
+        mode: "GOVERNANCE",
+        retainUntilDate,
+      });
+      await assertRejects(() => client.deleteObject("locked.txt", { bucketName: testBucketName, versionId }));
+
+      await client.putObjectLegalHold("locked.txt", true, { bucketName: testBucketName });
+      assertEquals(await client.getObjectLegalHold("locked.txt", { bucketName: testBucketName }), true);
+      await client.putObjectLegalHold("locked.txt", false, { bucketName: testBucketName });
+      assertEquals(await client.getObjectLegalHold("locked.txt", { bucketName: testBucketName }), false);
+    } finally {
+      await client.removePrefix("", { bucketName: testBucketName, includeVersions: true, governanceBypass: true });
+      await client.removeBucket(testBucketName);
+    }
+  },
+});
+
 Deno.test({
   name: "getPresignedUrl() correctly includes session token when it exists",
   fn: async () => {
@@ -0,0 +1,80 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertStringIncludes } from "@std/assert/string-includes";
+import { type LifecycleRule, lifecycleRulesToXml, parseLifecycleRules } from "./lifecycle.ts";
+import { testClient as client, withFakeFetch } from "./test-helpers.ts";
+import { parse as parseXML } from "./xml-parser.ts";
+
+const rules: LifecycleRule[] = [
+  { id: "expire-tmp", status: "Enabled", filter: { prefix: "tmp/" }, expiration: { days: 7 } },
+  { id: "abort-uploads", status: "Enabled", filter: {}, abortIncompleteMultipartUpload: { daysAfterInitiation: 1 } },
+  {
+    id: "archive <logs>",
+    status: "Disabled",
+    filter: { prefix: "logs/", tags: { team: "a&b" }, objectSizeGreaterThan: 1024 },
+    transitions: [
+      { days: 30, storageClass: "STANDARD_IA" },
+      { date: new Date("2030-01-01T00:00:00.000Z"), storageClass: "GLACIER" },
+    ],
+    noncurrentVersionTransitions: [{ noncurrentDays: 10, newerNoncurrentVersions: 2, storageClass: "GLACIER" }],
+    noncurrentVersionExpiration: { noncurrentDays: 90 },
+  },
+  { status: "Enabled", filter: { objectSizeLessThan: 10 }, expiration: { expiredObjectDeleteMarker: true } },
+];
+
+Deno.test({
+  name: "lifecycle rules can be converted to XML and back",
+  fn: () => {
+    const xml = lifecycleRulesToXml(rules);
+    assertEquals(parseLifecycleRules(parseXML(xml)!), rules);
+    // A filter with more than one condition uses <And>:
+    assertStringIncludes(
+      xml,
+      "<Filter><And><Prefix>logs/</Prefix><Tag><Key>team</Key><Value>a&amp;b</Value></Tag><ObjectSizeGreaterThan>1024</ObjectSizeGreaterThan></And></Filter>",
+    );
+    assertStringIncludes(xml, "<Filter><Prefix>tmp/</Prefix></Filter>");
+  },
+});
+
+Deno.test({
+  name: "parseLifecycleRules() understands the old format, with a prefix instead of a filter",
+  fn: () => {
+    const root = parseXML(`<LifecycleConfiguration>
+      <Rule><ID>old</ID><Prefix>old/</Prefix><Status>Enabled</Status><Expiration><Days>3</Days></Expiration></Rule>
+    </LifecycleConfiguration>`)!;
+    assertEquals(parseLifecycleRules(root), [
+      { id: "old", status: "Enabled", filter: { prefix: "old/" }, expiration: { days: 3 } },
+    ]);
+  },
+});
+
+Deno.test({
+  name: "getBucketLifecycle(), putBucketLifecycle() and deleteBucketLifecycle()",
+  fn: async () => {
+    await withFakeFetch(() => new Response(lifecycleRulesToXml(rules)), async (requests) => {
+      assertEquals(await client.getBucketLifecycle("my-bucket"), rules);
+      assertEquals(requests[0].url.pathname, "/my-bucket/");
+      assertEquals(requests[0].url.search, "?lifecycle");
+    });
+    // A bucket without lifecycle rules:
+    await withFakeFetch(
+      () =>
+        new Response("<Error><Code>NoSuchLifecycleConfiguration</Code><Message>none</Message></Error>", {
+          status: 404,
+        }),
+      async () => {
+        assertEquals(await client.getBucketLifecycle("my-bucket"), []);
+      },
+    );
+    await withFakeFetch(() => new Response(null), async (requests) => {
+      await client.putBucketLifecycle("my-bucket", rules);
+      assertEquals(requests[0].method, "PUT");
+      assertEquals(requests[0].body, lifecycleRulesToXml(rules));
+      assertEquals(requests[0].headers.has("x-amz-checksum-sha256"), true);
+    });
+    await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
+      await client.deleteBucketLifecycle("my-bucket");
+      assertEquals(requests[0].method, "DELETE");
+      assertEquals(requests[0].url.search, "?lifecycle");
+    });
+  },
+});
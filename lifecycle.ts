@@ -0,0 +1,272 @@
+/**
+ * @module
+ * Lifecycle rules, which tell the server to expire objects or move them to another storage class
+ * after some time. See https://docs.aws.amazon.com/AmazonS3/latest/userguide/object-lifecycle-mgmt.html
+ */
+
+import { getConfig } from "./bucket-config.ts";
+import type { Client } from "./client.ts";
+import * as errors from "./errors.ts";
+import { escapeXml } from "./helpers.ts";
+import { child, children, childText, numberText, type Xml } from "./xml-parser.ts";
+
+/**
+ * Which objects a lifecycle rule applies to. An object must match every condition that is given;
+ * a rule with an empty filter applies to every object in the bucket.
+ */
+export interface LifecycleFilter {
+  prefix?: string;
+  /** The object must have all of these tags */
+  tags?: Record<string, string>;
+  /** In bytes */
+  objectSizeGreaterThan?: number;
+  /** In bytes */
+  objectSizeLessThan?: number;
+}
+
+/** When an object moves to another storage class. Give either `days` or `date`. */
+export interface LifecycleTransition {
+  /** How many days after the object was created */
+  days?: number;
+  date?: Date;
+  /** e.g. "GLACIER", "STANDARD_IA", "DEEP_ARCHIVE" */
+  storageClass: string;
+}
+
+/** When a version of an object moves to another storage class, after it stops being the current version */
+export interface NoncurrentVersionTransition {
+  /** How many days after the version stopped being the current version */
+  noncurrentDays: number;
+  /** How many noncurrent versions to keep in the current storage class, regardless of their age */
+  newerNoncurrentVersions?: number;
+  storageClass: string;
+}
+
+/** A lifecycle rule. Each rule must have at least one action, such as `expiration` or `transitions`. */
+export interface LifecycleRule {
+  /** A unique name for the rule */
+  id?: string;
+  status: "Enabled" | "Disabled";
+  filter?: LifecycleFilter;
+  /** When objects expire (are deleted). Give `days`, `date` or `expiredObjectDeleteMarker`. */
+  expiration?: {
+    /** How many days after the object was created */
+    days?: number;
+    date?: Date;
+    /** In a versioned bucket, remove delete markers that no longer have any noncurrent versions behind them */
+    expiredObjectDeleteMarker?: boolean;
+  };
+  transitions?: LifecycleTransition[];
+  /** In a versioned bucket, when versions expire after they stop being the current version */
+  noncurrentVersionExpiration?: {
+    noncurrentDays: number;
+    /** How many noncurrent versions to keep, regardless of their age */
+    newerNoncurrentVersions?: number;
+  };
+  noncurrentVersionTransitions?: NoncurrentVersionTransition[];
+  /** Abort multi-part uploads that haven't been completed this many days after they started */
+  abortIncompleteMultipartUpload?: { daysAfterInitiation: number };
+}
+
+/** Get the lifecycle rules of a bucket. Returns an empty list if the bucket has no lifecycle configuration. */
+export async function getBucketLifecycle(
+  { client, bucketName, signal }: { client: Client; bucketName: string; signal?: AbortSignal },
+): Promise<LifecycleRule[]> {
+  let root: Xml;
+  try {
+    // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_GetBucketLifecycleConfiguration.html#API_GetBucketLifecycleConfiguration_ResponseSyntax
+    root = await getConfig({
+      client,
+      bucketName,
+      subresource: "lifecycle",
+      rootName: "LifecycleConfiguration",
+      signal,
+    });
+  } catch (err) {
+    if (err instanceof errors.ServerError && err.code === "NoSuchLifecycleConfiguration") {
+      return [];
+    }
+    throw err;
+  }
+  return parseLifecycleRules(root);
+}
+
+/** Replace the lifecycle rules of a bucket */
+export async function putBucketLifecycle(
+  { client, bucketName, rules, signal }: {
+    client: Client;
+    bucketName: string;
+    rules: readonly LifecycleRule[];
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  await client.makeRequest({
+    method: "PUT",
+    bucketName,
+    objectName: "",
+    query: "lifecycle",
+    payload: lifecycleRulesToXml(rules),
+    checksumRequired: true,
+    signal,
+  });
+}
+
+/** Remove all the lifecycle rules of a bucket */
+export async function deleteBucketLifecycle(
+  { client, bucketName, signal }: { client: Client; bucketName: string; signal?: AbortSignal },
+): Promise<void> {
+  await client.makeRequest({
+    method: "DELETE",
+    bucketName,
+    objectName: "",
+    query: "lifecycle",
+    statusCode: 204,
+    signal,
+  });
+}
+
+/** Convert lifecycle rules to the XML of a `<LifecycleConfiguration>` */
+export function lifecycleRulesToXml(rules: readonly LifecycleRule[]): string {
+  return `<LifecycleConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">${
+    rules.map(ruleToXml).join("")
+  }</LifecycleConfiguration>`;
+}
+
+/** Parse the rules of a `<LifecycleConfiguration>` element */
+export function parseLifecycleRules(root: Xml): LifecycleRule[] {
+  return children(root, "Rule").map(parseRule);
+}
+
+function ruleToXml(rule: LifecycleRule): string {
+  const { expiration, noncurrentVersionExpiration, abortIncompleteMultipartUpload } = rule;
+  return "<Rule>" +
+    element("ID", rule.id) +
+    filterToXml(rule.filter ?? {}) +
+    element("Status", rule.status) +
+    (expiration
+      ? `<Expiration>${element("Days", expiration.days)}${element("Date", expiration.date?.toISOString())}${
+        element("ExpiredObjectDeleteMarker", expiration.expiredObjectDeleteMarker)
+      }</Expiration>`
+      : "") +
+    (rule.transitions ?? []).map((t) =>
+      `<Transition>${element("Days", t.days)}${element("Date", t.date?.toISOString())}${
+        element("StorageClass", t.storageClass)
+      }</Transition>`
+    ).join("") +
+    (rule.noncurrentVersionTransitions ?? []).map((t) =>
+      `<NoncurrentVersionTransition>${element("NoncurrentDays", t.noncurrentDays)}${
+        element("NewerNoncurrentVersions", t.newerNoncurrentVersions)
+      }${element("StorageClass", t.storageClass)}</NoncurrentVersionTransition>`
+    ).join("") +
+    (noncurrentVersionExpiration
+      ? `<NoncurrentVersionExpiration>${element("NoncurrentDays", noncurrentVersionExpiration.noncurrentDays)}${
+        element("NewerNoncurrentVersions", noncurrentVersionExpiration.newerNoncurrentVersions)
+      }</NoncurrentVersionExpiration>`
+      : "") +
+    (abortIncompleteMultipartUpload
+      ? `<AbortIncompleteMultipartUpload>${
+        element("DaysAfterInitiation", abortIncompleteMultipartUpload.daysAfterInitiation)
+      }</AbortIncompleteMultipartUpload>`
+      : "") +
+    "</Rule>";
+}
+
+function filterToXml(filter: LifecycleFilter): string {
+  const conditions = [
+    element("Prefix", filter.prefix),
+    ...Object.entries(filter.tags ?? {}).map(([key, value]) =>
+      `<Tag>${element("Key", key)}${element("Value", value)}</Tag>`
+    ),
+    element("ObjectSizeGreaterThan", filter.objectSizeGreaterThan),
+    element("ObjectSizeLessThan", filter.objectSizeLessThan),
+  ].filter((c) => c);
+  // More than one condition must be combined with <And>:
+  return conditions.length > 1
+    ? `<Filter><And>${conditions.join("")}</And></Filter>`
+    : `<Filter>${conditions.join("")}</Filter>`;
+}
+
+function parseRule(ruleElement: Xml): LifecycleRule {
+  const rule: LifecycleRule = {
+    status: childText(ruleElement, "Status") === "Enabled" ? "Enabled" : "Disabled",
+  };
+  const id = childText(ruleElement, "ID");
+  if (id) rule.id = id;
+
+  const filterElement = child(ruleElement, "Filter");
+  // Older rules may have a <Prefix> directly in the rule, instead of a <Filter>:
+  const legacyPrefix = childText(ruleElement, "Prefix");
+  if (filterElement) {
+    rule.filter = parseFilter(child(filterElement, "And") ?? filterElement);
+  } else if (legacyPrefix !== undefined) {
+    rule.filter = { prefix: legacyPrefix };
+  }
+
+  const expirationElement = child(ruleElement, "Expiration");
+  if (expirationElement) {
+    const days = numberText(expirationElement, "Days");
+    const date = childText(expirationElement, "Date");
+    const expiredObjectDeleteMarker = childText(expirationElement, "ExpiredObjectDeleteMarker");
+    rule.expiration = {
+      ...(days !== undefined ? { days } : {}),
+      ...(date ? { date: new Date(date) } : {}),
+      ...(expiredObjectDeleteMarker ? { expiredObjectDeleteMarker: expiredObjectDeleteMarker === "true" } : {}),
+    };
+  }
+
+  const transitions = children(ruleElement, "Transition").map((t) => {
+    const days = numberText(t, "Days");
+    const date = childText(t, "Date");
+    return {
+      ...(days !== undefined ? { days } : {}),
+      ...(date ? { date: new Date(date) } : {}),
+      storageClass: childText(t, "StorageClass") ?? "",
+    };
+  });
+  if (transitions.length) rule.transitions = transitions;
+
+  const noncurrentVersionTransitions = children(ruleElement, "NoncurrentVersionTransition").map((t) => {
+    const newerNoncurrentVersions = numberText(t, "NewerNoncurrentVersions");
+    return {
+      noncurrentDays: numberText(t, "NoncurrentDays") ?? 0,
+      ...(newerNoncurrentVersions !== undefined ? { newerNoncurrentVersions } : {}),
+      storageClass: childText(t, "StorageClass") ?? "",
+    };
+  });
+  if (noncurrentVersionTransitions.length) rule.noncurrentVersionTransitions = noncurrentVersionTransitions;
+
+  const noncurrentExpirationElement = child(ruleElement, "NoncurrentVersionExpiration");
+  if (noncurrentExpirationElement) {
+    const newerNoncurrentVersions = numberText(noncurrentExpirationElement, "NewerNoncurrentVersions");
+    rule.noncurrentVersionExpiration = {
+      noncurrentDays: numberText(noncurrentExpirationElement, "NoncurrentDays") ?? 0,
+      ...(newerNoncurrentVersions !== undefined ? { newerNoncurrentVersions } : {}),
+    };
+  }
+
+  const abortElement = child(ruleElement, "AbortIncompleteMultipartUpload");
+  if (abortElement) {
+    rule.abortIncompleteMultipartUpload = { daysAfterInitiation: numberText(abortElement, "DaysAfterInitiation") ?? 0 };
+  }
+  return rule;
+}
+
+function parseFilter(element: Xml): LifecycleFilter {
+  const filter: LifecycleFilter = {};
+  const prefix = childText(element, "Prefix");
+  if (prefix !== undefined) filter.prefix = prefix;
+  const tags = children(element, "Tag");
+  if (tags.length) {
+    filter.tags = Object.fromEntries(tags.map((t) => [childText(t, "Key") ?? "", childText(t, "Value") ?? ""]));
+  }
+  const objectSizeGreaterThan = numberText(element, "ObjectSizeGreaterThan");
+  if (objectSizeGreaterThan !== undefined) filter.objectSizeGreaterThan = objectSizeGreaterThan;
+  const objectSizeLessThan = numberText(element, "ObjectSizeLessThan");
+  if (objectSizeLessThan !== undefined) filter.objectSizeLessThan = objectSizeLessThan;
+  return filter;
+}
+
+/** An XML element with the given text, or nothing if the value is undefined */
+function element(name: string, value: string | number | boolean | undefined): string {
+  return value === undefined ? "" : `<${name}>${escapeXml(String(value))}</${name}>`;
+}
@@ -0,0 +1,60 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { MemoryBudget } from "./memory-budget.ts";
+
+/** Let any promise callbacks that are ready run */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+Deno.test({
+  name: "MemoryBudget makes acquire() wait until enough bytes are released, in order",
+  fn: async () => {
+    const budget = new MemoryBudget(100);
+    await budget.acquire(60);
+    const granted: string[] = [];
+    const first = budget.acquire(50).then(() => granted.push("first"));
+    // This one would fit, but it waits its turn behind the first one:
+    const second = budget.acquire(10).then(() => granted.push("second"));
+    await settle();
+    assertEquals(granted, []);
+    assertEquals(budget.used, 60);
+
+    budget.release(60);
+    await Promise.all([first, second]);
+    assertEquals(granted, ["first", "second"]);
+    assertEquals(budget.used, 60);
+  },
+});
+
+Deno.test({
+  name: "MemoryBudget lets a request bigger than the whole budget go ahead once nothing else is using it",
+  fn: async () => {
+    const budget = new MemoryBudget(100);
+    await budget.acquire(10);
+    let granted = false;
+    const big = budget.acquire(500).then(() => granted = true);
+    await settle();
+    assertEquals(granted, false);
+    budget.release(10);
+    await big;
+    assertEquals(budget.used, 500);
+    budget.release(500);
+    assertEquals(budget.used, 0);
+  },
+});
+
+Deno.test({
+  name: "MemoryBudget.acquire() can be aborted",
+  fn: async () => {
+    const budget = new MemoryBudget(100);
+    await budget.acquire(100);
+    const controller = new AbortController();
+    const aborted = budget.acquire(50, controller.signal);
+    const next = budget.acquire(50);
+    controller.abort(new Error("never mind"));
+    await assertRejects(() => aborted, Error, "never mind");
+    // The aborted request no longer holds up the ones behind it:
+    budget.release(50);
+    await next;
+    assertEquals(budget.used, 100);
+  },
+});
@@ -0,0 +1,70 @@
+/**
+ * Limits how many bytes can be held in memory at once by the uploads of a client, across all of
+ * its concurrent `putObject()` calls.
+ *
+ * Uploads `acquire()` the bytes of each part before uploading it, and `release()` them once the
+ * part has been uploaded. While the budget is used up, `acquire()` waits, which stops the upload
+ * from reading any more of its source stream until other parts have finished.
+ */
+export class MemoryBudget {
+  #available: number;
+  /** The callers of acquire() that are waiting for bytes to be released, in the order they called it */
+  readonly #waiting: { bytes: number; grant: () => void }[] = [];
+
+  constructor(readonly limit: number) {
+    this.#available = limit;
+  }
+
+  /** How many bytes are in use right now */
+  get used(): number {
+    return this.limit - this.#available;
+  }
+
+  /**
+   * Wait until `bytes` are available, then take them. If `bytes` is more than the whole budget, this
+   * waits until nothing else is using the budget, so that a single large part can still be uploaded.
+   */
+  acquire(bytes: number, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.#waiting.length === 0 && this.#canTake(bytes)) {
+      this.#available -= bytes;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        bytes,
+        grant: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      const onAbort = () => {
+        this.#waiting.splice(this.#waiting.indexOf(waiter), 1);
+        // Whoever was waiting behind us may be able to go ahead now.
+        this.#grantWaiting();
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.#waiting.push(waiter);
+    });
+  }
+
+  /** Give back bytes that were taken with `acquire()` */
+  release(bytes: number): void {
+    this.#available += bytes;
+    this.#grantWaiting();
+  }
+
+  #canTake(bytes: number): boolean {
+    return bytes <= this.#available || this.#available === this.limit;
+  }
+
+  /** Let waiting callers go ahead in order, for as long as there are enough bytes available */
+  #grantWaiting(): void {
+    while (this.#waiting.length > 0 && this.#canTake(this.#waiting[0].bytes)) {
+      const waiter = this.#waiting.shift()!;
+      this.#available -= waiter.bytes;
+      waiter.grant();
+    }
+  }
+}
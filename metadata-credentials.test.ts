@@ -0,0 +1,186 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { assertStringIncludes } from "@std/assert/string-includes";
+import { assertThrows } from "@std/assert/throws";
+import * as errors from "./errors.ts";
+import { containerCredentials, instanceMetadataCredentials } from "./metadata-credentials.ts";
+import { createTestClient, type FakeRequest, withFakeFetch } from "./test-helpers.ts";
+
+const credentialsJson = (n: number) =>
+  JSON.stringify({
+    Code: "Success",
+    Type: "AWS-HMAC",
+    AccessKeyId: `ASIA_META_${n}`,
+    SecretAccessKey: `meta-secret-${n}`,
+    Token: `meta-token-${n}`,
+    Expiration: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  });
+
+Deno.test({
+  name: "containerCredentials() gets credentials from the ECS container credentials endpoint",
+  fn: async () => {
+    await withFakeFetch(() => new Response(credentialsJson(1)), async (requests) => {
+      const provider = containerCredentials({ env: { AWS_CONTAINER_CREDENTIALS_RELATIVE_URI: "/v2/credentials/abc" } });
+      const credentials = await provider();
+      assertEquals(credentials.accessKey, "ASIA_META_1");
+      assertEquals(credentials.secretKey, "meta-secret-1");
+      assertEquals(credentials.sessionToken, "meta-token-1");
+      assertEquals(credentials.expiration instanceof Date, true);
+      assertEquals(requests[0].url.href, "http://169.254.170.2/v2/credentials/abc");
+      assertEquals(requests[0].headers.get("Authorization"), null);
+    });
+  },
+});
+
+Deno.test({
+  name: "containerCredentials() can use a full URI and an authorization token",
+  fn: async () => {
+    await withFakeFetch(() => new Response(credentialsJson(1)), async (requests) => {
+      const provider = containerCredentials({
+        env: {
+          AWS_CONTAINER_CREDENTIALS_FULL_URI: "http://localhost:8080/creds",
+          AWS_CONTAINER_AUTHORIZATION_TOKEN: "secret-auth-token",
+        },
+      });
+      await provider();
+      assertEquals(requests[0].url.href, "http://localhost:8080/creds");
+      assertEquals(requests[0].headers.get("Authorization"), "secret-auth-token");
+    });
+
+    assertThrows(() => containerCredentials({ env: {} }), errors.InvalidArgumentError);
+  },
+});
+
+Deno.test({
+  name: "containerCredentials() only sends the token to a full URI that is local or uses HTTPS",
+  fn: () => {
+    for (
+      const url of [
+        "https://credentials.example.com/creds",
+        "http://127.0.0.1:8080/creds",
+        "http://[::1]/creds",
+        "http://169.254.170.2/creds",
+        "http://169.254.170.23/v1/credentials",
+        "http://[fd00:ec2::23]/v1/credentials",
+      ]
+    ) {
+      containerCredentials({ env: { AWS_CONTAINER_CREDENTIALS_FULL_URI: url } });
+    }
+    for (const url of ["http://credentials.example.com/creds", "http://10.0.0.1/creds", "ftp://localhost/", "nope"]) {
+      assertThrows(
+        () => containerCredentials({ env: { AWS_CONTAINER_CREDENTIALS_FULL_URI: url } }),
+        errors.InvalidArgumentError,
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "containerCredentials() reports errors from the endpoint",
+  fn: async () => {
+    const errorJson = JSON.stringify({ code: "AccessDenied", message: "Not allowed" });
+    await withFakeFetch(() => new Response(errorJson, { status: 403 }), async () => {
+      const provider = containerCredentials({ env: { AWS_CONTAINER_CREDENTIALS_FULL_URI: "http://localhost/c" } });
+      const err = await assertRejects(provider, errors.ServerError);
+      assertEquals(err.statusCode, 403);
+      assertStringIncludes(err.message, "Not allowed");
+    });
+  },
+});
+
+/** A fake instance metadata service, which issues the tokens in `tokens` in order. */
+function fakeImds(tokens: string[], { validTokens }: { validTokens?: string[] } = {}) {
+  let credentialsServed = 0;
+  return (request: FakeRequest) => {
+    const path = request.url.pathname;
+    if (path === "/latest/api/token") {
+      if (request.method !== "PUT" || !request.headers.get("X-aws-ec2-metadata-token-ttl-seconds")) {
+        return new Response(null, { status: 400 });
+      }
+      return new Response(tokens.shift());
+    }
+    const token = request.headers.get("X-aws-ec2-metadata-token");
+    if (!token || (validTokens && !validTokens.includes(token))) {
+      return new Response(null, { status: 401 });
+    }
+    if (path === "/latest/meta-data/iam/security-credentials/") {
+      return new Response("my-instance-role\n");
+    } else if (path === "/latest/meta-data/iam/security-credentials/my-instance-role") {
+      return new Response(credentialsJson(++credentialsServed));
+    }
+    return new Response(null, { status: 404 });
+  };
+}
+
+Deno.test({
+  name: "instanceMetadataCredentials() uses an IMDSv2 token to get the role's credentials",
+  fn: async () => {
+    await withFakeFetch(fakeImds(["token-1", "token-2"]), async (requests) => {
+      const provider = instanceMetadataCredentials({ env: {} });
+      assertEquals((await provider()).accessKey, "ASIA_META_1");
+      assertEquals((await provider()).accessKey, "ASIA_META_2");
+
+      assertEquals(requests.map((r) => `${r.method} ${r.url}`), [
+        "PUT http://169.254.169.254/latest/api/token",
+        "GET http://169.254.169.254/latest/meta-data/iam/security-credentials/",
+        "GET http://169.254.169.254/latest/meta-data/iam/security-credentials/my-instance-role",
+        // The token is reused the second time:
+        "GET http://169.254.169.254/latest/meta-data/iam/security-credentials/",
+        "GET http://169.254.169.254/latest/meta-data/iam/security-credentials/my-instance-role",
+      ]);
+      assertEquals(requests[0].headers.get("X-aws-ec2-metadata-token-ttl-seconds"), "21600");
+      assertEquals(requests[4].headers.get("X-aws-ec2-metadata-token"), "token-1");
+    });
+  },
+});
+
+Deno.test({
+  name: "instanceMetadataCredentials() gets a new token if the old one is rejected",
+  fn: async () => {
+    await withFakeFetch(
+      fakeImds(["stale-token", "fresh-token"], { validTokens: ["fresh-token"] }),
+      async (requests) => {
+        const provider = instanceMetadataCredentials({ endpoint: "http://[fd00:ec2::254]/" });
+        assertEquals((await provider()).accessKey, "ASIA_META_1");
+        assertEquals(requests.filter((r) => r.method === "PUT").length, 2);
+        assertEquals(requests.at(-1)?.headers.get("X-aws-ec2-metadata-token"), "fresh-token");
+        assertEquals(
+          requests.at(-1)?.url.href,
+          "http://[fd00:ec2::254]/latest/meta-data/iam/security-credentials/my-instance-role",
+        );
+      },
+    );
+  },
+});
+
+Deno.test({
+  name: "instance metadata credentials are used to sign the client's requests",
+  fn: async () => {
+    const imds = fakeImds(["token-1"]);
+    await withFakeFetch(
+      (request) => request.url.hostname.startsWith("s3.") ? new Response(null, { status: 204 }) : imds(request),
+      async (requests) => {
+        const client = createTestClient({
+          credentials: instanceMetadataCredentials({ env: { AWS_EC2_METADATA_SERVICE_ENDPOINT: "http://imds.local" } }),
+        });
+        await client.deleteObject("file.txt");
+        const s3Request = requests.at(-1)!;
+        assertEquals(s3Request.url.href, "https://s3.example.com/test-bucket/file.txt");
+        assertStringIncludes(s3Request.headers.get("authorization") ?? "", "Credential=ASIA_META_1/");
+        assertEquals(s3Request.headers.get("x-amz-security-token"), "meta-token-1");
+      },
+    );
+  },
+});
+
+Deno.test({
+  name: "credentials JSON with a missing field is an error that doesn't include the JSON",
+  fn: async () => {
+    const json = JSON.stringify({ AccessKeyId: "ASIA_META_1", Token: "leaked-token" });
+    await withFakeFetch(() => new Response(json), async () => {
+      const provider = containerCredentials({ env: { AWS_CONTAINER_CREDENTIALS_RELATIVE_URI: "/v2/credentials/abc" } });
+      const err = await assertRejects(provider, Error, "the credentials are missing SecretAccessKey");
+      assertEquals(err.message.includes("leaked-token"), false);
+    });
+  },
+});
@@ -0,0 +1,218 @@
+/**
+ * @module
+ * Credential providers that get temporary credentials from the environment the code is running in:
+ * the ECS/EKS container credentials endpoint, or the EC2 instance metadata service (IMDSv2).
+ */
+
+import type { CredentialProvider, Credentials } from "./credentials.ts";
+import * as errors from "./errors.ts";
+import { getEnvironment, readTextFile } from "./helpers.ts";
+
+/** The metadata endpoints are local, so if they don't respond quickly they're not going to. */
+const defaultTimeoutMs = 1000;
+
+/** The ECS task metadata endpoint, which `AWS_CONTAINER_CREDENTIALS_RELATIVE_URI` is relative to. */
+const ecsContainerHost = "http://169.254.170.2";
+
+/**
+ * The hosts that `AWS_CONTAINER_CREDENTIALS_FULL_URI` may use plain HTTP with (along with any loopback
+ * address): the ECS and EKS Pod Identity endpoints. Like the AWS SDKs, we refuse other hosts unless
+ * they use HTTPS, so that a misconfigured environment can't send the authorization token elsewhere.
+ */
+const allowedContainerHosts = ["169.254.170.2", "169.254.170.23", "[fd00:ec2::23]", "localhost", "[::1]"];
+
+/** The EC2 instance metadata endpoint */
+const defaultImdsEndpoint = "http://169.254.169.254";
+
+/** Options for `containerCredentials()` */
+export interface ContainerCredentialsOptions {
+  /**
+   * The environment variables that say where to get the credentials: `AWS_CONTAINER_CREDENTIALS_RELATIVE_URI`
+   * or `AWS_CONTAINER_CREDENTIALS_FULL_URI`, and optionally `AWS_CONTAINER_AUTHORIZATION_TOKEN` or
+   * `AWS_CONTAINER_AUTHORIZATION_TOKEN_FILE`. Default: the real environment (`process.env`).
+   */
+  env?: Record<string, string | undefined>;
+  /** How long to wait for the endpoint to respond, in milliseconds. Default: 1000 */
+  timeoutMs?: number;
+}
+
+/** Options for `instanceMetadataCredentials()` */
+export interface InstanceMetadataCredentialsOptions {
+  /** The instance metadata endpoint. Default: `AWS_EC2_METADATA_SERVICE_ENDPOINT`, or else "http://169.254.169.254" */
+  endpoint?: string;
+  /** The environment variables to use. Default: the real environment (`process.env`). */
+  env?: Record<string, string | undefined>;
+  /** How long each IMDSv2 session token should last, in seconds. Default: 6 hours (the maximum). */
+  tokenTtlSeconds?: number;
+  /** How long to wait for the endpoint to respond, in milliseconds. Default: 1000 */
+  timeoutMs?: number;
+}
+
+/**
+ * The JSON that both the container credentials endpoint and the instance metadata service return.
+ * (The instance metadata service also includes a `Code`, which is "Success" if it worked.)
+ */
+interface MetadataCredentialsJson {
+  Code?: string;
+  Message?: string;
+  AccessKeyId?: string;
+  SecretAccessKey?: string;
+  Token?: string;
+  Expiration?: string;
+}
+
+/**
+ * A credential provider for code running on ECS (or on EKS with Pod Identity), which gets the
+ * container's credentials from the endpoint given in `AWS_CONTAINER_CREDENTIALS_RELATIVE_URI` or
+ * `AWS_CONTAINER_CREDENTIALS_FULL_URI`. A full URI must use HTTPS, unless it's a loopback address or
+ * the ECS or EKS container endpoint.
+ *
+ * Pass the result as the client's `credentials` option. The client caches the credentials, and fetches
+ * new ones shortly before they expire.
+ */
+export function containerCredentials(options: ContainerCredentialsOptions = {}): CredentialProvider {
+  const env = options.env ?? getEnvironment();
+  const relativeUri = env.AWS_CONTAINER_CREDENTIALS_RELATIVE_URI;
+  const url = relativeUri ? ecsContainerHost + relativeUri : env.AWS_CONTAINER_CREDENTIALS_FULL_URI;
+  if (!url) {
+    throw new errors.InvalidArgumentError(
+      `Container credentials require AWS_CONTAINER_CREDENTIALS_RELATIVE_URI or AWS_CONTAINER_CREDENTIALS_FULL_URI.`,
+    );
+  }
+  if (!relativeUri && !isAllowedContainerUrl(url)) {
+    throw new errors.InvalidArgumentError(
+      `AWS_CONTAINER_CREDENTIALS_FULL_URI must use HTTPS, or a loopback or ECS/EKS container endpoint address: ${url}`,
+    );
+  }
+  return async () => {
+    const headers = new Headers();
+    // The token file (used by EKS Pod Identity) is re-read every time, since the token gets rotated.
+    const tokenFile = env.AWS_CONTAINER_AUTHORIZATION_TOKEN_FILE;
+    const token = tokenFile ? (await readTextFile(tokenFile))?.trim() : env.AWS_CONTAINER_AUTHORIZATION_TOKEN;
+    if (token) {
+      headers.set("Authorization", token);
+    }
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(options.timeoutMs ?? defaultTimeoutMs),
+    });
+    return parseMetadataCredentials(response);
+  };
+}
+
+/** Check that `AWS_CONTAINER_CREDENTIALS_FULL_URI` is a URL that it's safe to send the authorization token to */
+function isAllowedContainerUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol === "https:") {
+    return true;
+  }
+  return parsed.protocol === "http:" &&
+    (allowedContainerHosts.includes(parsed.hostname) || /^127\.\d+\.\d+\.\d+$/.test(parsed.hostname));
+}
+
+/**
+ * A credential provider for code running on EC2, which gets the credentials of the instance's IAM role
+ * from the instance metadata service, using IMDSv2 session tokens.
+ *
+ * Pass the result as the client's `credentials` option. The client caches the credentials, and fetches
+ * new ones shortly before they expire.
+ */
+export function instanceMetadataCredentials(options: InstanceMetadataCredentialsOptions = {}): CredentialProvider {
+  const env = options.env ?? getEnvironment();
+  const baseUrl = options.endpoint ?? env.AWS_EC2_METADATA_SERVICE_ENDPOINT ?? defaultImdsEndpoint;
+  const endpoint = baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl;
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? 6 * 60 * 60;
+  const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+  /** The current IMDSv2 session token, which we reuse until shortly before it expires. */
+  let token: { value: string; expiresAt: number } | undefined;
+
+  async function getToken(): Promise<string> {
+    if (!token || token.expiresAt - 60_000 <= Date.now()) {
+      const expiresAt = Date.now() + tokenTtlSeconds * 1000;
+      const response = await fetch(`${endpoint}/latest/api/token`, {
+        method: "PUT",
+        headers: { "X-aws-ec2-metadata-token-ttl-seconds": String(tokenTtlSeconds) },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      const value = await response.text();
+      if (response.status !== 200) {
+        throw new errors.ServerError(
+          response.status,
+          "UnexpectedStatusCode",
+          `Unable to get an IMDSv2 session token (${response.status} ${response.statusText}).`,
+        );
+      }
+      token = { value, expiresAt };
+    }
+    return token.value;
+  }
+
+  async function getMetadata(path: string): Promise<Response> {
+    const request = async () =>
+      fetch(`${endpoint}${path}`, {
+        headers: { "X-aws-ec2-metadata-token": await getToken() },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    let response = await request();
+    if (response.status === 401) {
+      // The session token is no longer valid (e.g. the instance was stopped and started); get a new one.
+      await response.body?.cancel();
+      token = undefined;
+      response = await request();
+    }
+    return response;
+  }
+
+  return async () => {
+    // First find out the name of the instance's role, then get the credentials for it:
+    const roleResponse = await getMetadata("/latest/meta-data/iam/security-credentials/");
+    const roleName = (await roleResponse.text()).split("\n")[0].trim();
+    if (roleResponse.status !== 200 || !roleName) {
+      throw new errors.ServerError(
+        roleResponse.status,
+        "CredentialsUnavailable",
+        `Unable to find the instance's IAM role from the instance metadata service.`,
+      );
+    }
+    const response = await getMetadata(
+      `/latest/meta-data/iam/security-credentials/${encodeURIComponent(roleName)}`,
+    );
+    return parseMetadataCredentials(response);
+  };
+}
+
+/** Parse the credentials JSON returned by the container credentials endpoint or the instance metadata service */
+async function parseMetadataCredentials(response: Response): Promise<Credentials> {
+  const responseText = await response.text();
+  let json: MetadataCredentialsJson | undefined;
+  try {
+    json = JSON.parse(responseText);
+  } catch {
+    // Handled below
+  }
+  if (response.status !== 200 || !json || (json.Code && json.Code !== "Success")) {
+    throw new errors.ServerError(
+      response.status,
+      json?.Code ?? "CredentialsUnavailable",
+      json?.Message ?? `Unable to get credentials (${response.status} ${response.statusText}): ${responseText}`,
+    );
+  }
+  // Don't include the response in these errors: it contains credentials, which would end up in logs.
+  if (!json.AccessKeyId) {
+    throw new Error(`Unexpected response: the credentials are missing AccessKeyId.`);
+  }
+  if (!json.SecretAccessKey) {
+    throw new Error(`Unexpected response: the credentials are missing SecretAccessKey.`);
+  }
+  return {
+    accessKey: json.AccessKeyId,
+    secretKey: json.SecretAccessKey,
+    sessionToken: json.Token,
+    expiration: json.Expiration ? new Date(json.Expiration) : undefined,
+  };
+}
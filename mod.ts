@@ -12,8 +12,73 @@ export {
   type ObjectStatus as S3ObjectStatus,
   type PolicyCondition as S3PolicyCondition,
   type PresignedPostResult as S3PresignedPostResult,
+  type ReadConditions as S3ReadConditions,
   type ResponseOverrideParams as S3ResponseOverrideParams,
   type S3Object,
   type UploadedObjectInfo as S3UploadedObjectInfo,
+  type WriteConditions as S3WriteConditions,
 } from "./client.ts";
+export {
+  type BucketPolicy as S3BucketPolicy,
+  type BucketPolicyStatement as S3BucketPolicyStatement,
+  type BucketVersioning as S3BucketVersioning,
+  type CorsRule as S3CorsRule,
+} from "./bucket-config.ts";
+export { type ChecksumAlgorithm as S3ChecksumAlgorithm } from "./checksums.ts";
+export * as S3CredentialProviders from "./credential-providers.ts";
+export { type CredentialProvider as S3CredentialProvider, type Credentials as S3Credentials } from "./credentials.ts";
+export {
+  type DeleteObjectResult as S3DeleteObjectResult,
+  type ObjectToDelete as S3ObjectToDelete,
+  type RemovePrefixOptions as S3RemovePrefixOptions,
+  type RemovePrefixResult as S3RemovePrefixResult,
+} from "./delete-objects.ts";
+export {
+  type DownloadOptions as S3DownloadOptions,
+  type ResumableDownloadOptions as S3ResumableDownloadOptions,
+} from "./download.ts";
+export * as S3Environment from "./environment.ts";
 export * as S3Errors from "./errors.ts";
+export {
+  type LifecycleFilter as S3LifecycleFilter,
+  type LifecycleRule as S3LifecycleRule,
+  type LifecycleTransition as S3LifecycleTransition,
+  type NoncurrentVersionTransition as S3NoncurrentVersionTransition,
+} from "./lifecycle.ts";
+export {
+  type ContainerCredentialsOptions as S3ContainerCredentialsOptions,
+  type InstanceMetadataCredentialsOptions as S3InstanceMetadataCredentialsOptions,
+} from "./metadata-credentials.ts";
+export {
+  type MultipartUploadInfo as S3MultipartUploadInfo,
+  type Part as S3Part,
+  type UploadedPart as S3UploadedPart,
+} from "./multipart.ts";
+export {
+  type ObjectLockConfiguration as S3ObjectLockConfiguration,
+  type ObjectRetention as S3ObjectRetention,
+  type RetentionMode as S3RetentionMode,
+} from "./object-lock.ts";
+export {
+  type Progress as S3Progress,
+  type ProgressCallback as S3ProgressCallback,
+  trackDownloadProgress as s3TrackDownloadProgress,
+} from "./progress.ts";
+export { type RetryOptions as S3RetryOptions } from "./retry.ts";
+export {
+  type AssumeRoleOptions as S3AssumeRoleOptions,
+  type AssumeRoleWithWebIdentityOptions as S3AssumeRoleWithWebIdentityOptions,
+} from "./sts.ts";
+export { type Tags as S3Tags } from "./tagging.ts";
+export {
+  JsonFileUploadStateStore as S3JsonFileUploadStateStore,
+  type JsonFileUploadStateStoreOptions as S3JsonFileUploadStateStoreOptions,
+  MemoryUploadStateStore as S3MemoryUploadStateStore,
+  type UploadState as S3UploadState,
+  type UploadStateStore as S3UploadStateStore,
+} from "./upload-state.ts";
+export {
+  type DeleteMarker as S3DeleteMarker,
+  type ObjectVersion as S3ObjectVersion,
+  type VersionListMarkers as S3VersionListMarkers,
+} from "./versions.ts";
@@ -0,0 +1,145 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { assertStringIncludes } from "@std/assert/string-includes";
+import * as errors from "./errors.ts";
+import { testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+Deno.test({
+  name: "a multi-part upload can be created, uploaded and completed one request at a time",
+  fn: async () => {
+    await withFakeFetch((request) => {
+      if (request.url.searchParams.has("uploads")) {
+        return new Response(
+          `<InitiateMultipartUploadResult><UploadId>upload-1</UploadId></InitiateMultipartUploadResult>`,
+        );
+      } else if (request.url.searchParams.has("partNumber")) {
+        return new Response(null, { headers: { etag: `"etag-${request.url.searchParams.get("partNumber")}"` } });
+      }
+      return new Response(
+        `<CompleteMultipartUploadResult><ETag>&#34;final-etag-2&#34;</ETag></CompleteMultipartUploadResult>`,
+        { headers: { "x-amz-version-id": "v1" } },
+      );
+    }, async (requests) => {
+      const { uploadId } = await client.createMultipartUpload("big.bin", { metadata: { "Content-Type": "text/csv" } });
+      assertEquals(uploadId, "upload-1");
+      assertEquals(requests[0].method, "POST");
+      assertEquals(requests[0].headers.get("Content-Type"), "text/csv");
+
+      // The parts could be uploaded from different processes, in any order:
+      const part2 = await client.uploadPart("big.bin", "world", { uploadId, partNumber: 2 });
+      const part1 = await client.uploadPart("big.bin", "hello ", { uploadId, partNumber: 1 });
+      assertEquals(part1, { partNumber: 1, etag: "etag-1" });
+      assertEquals(requests[1].url.search, "?partNumber=2&uploadId=upload-1");
+      assertEquals(requests[1].body, "world");
+
+      const result = await client.completeMultipartUpload("big.bin", { uploadId, parts: [part2, part1] });
+      assertEquals(result, { etag: "final-etag-2", versionId: "v1" });
+      const completeRequest = requests[3];
+      assertEquals(completeRequest.url.search, "?uploadId=upload-1");
+      // The parts are listed in order:
+      assertStringIncludes(
+        completeRequest.body.replace(/\s+/g, ""),
+        "<Part><PartNumber>1</PartNumber><ETag>etag-1</ETag></Part><Part><PartNumber>2</PartNumber>",
+      );
+    });
+
+    await assertRejects(
+      () => client.uploadPart("big.bin", "data", { uploadId: "upload-1", partNumber: 10_001 }),
+      errors.InvalidArgumentError,
+    );
+  },
+});
+
+Deno.test({
+  name: "abortMultipartUpload",
+  fn: async () => {
+    await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
+      await client.abortMultipartUpload("big.bin", { uploadId: "upload/1", bucketName: "other-bucket" });
+      assertEquals(requests[0].method, "DELETE");
+      assertEquals(requests[0].url.pathname, "/other-bucket/big.bin");
+      assertEquals(requests[0].url.searchParams.get("uploadId"), "upload/1");
+    });
+  },
+});
+
+Deno.test({
+  name: "listParts() handles pagination",
+  fn: async () => {
+    const pages: Record<string, string> = {
+      "": `<ListPartsResult>
+        <IsTruncated>true</IsTruncated>
+        <NextPartNumberMarker>1</NextPartNumberMarker>
+        <Part><PartNumber>1</PartNumber><ETag>"etag-1"</ETag><Size>5242880</Size>
+          <LastModified>2025-01-02T03:04:05.000Z</LastModified></Part>
+      </ListPartsResult>`,
+      "1": `<ListPartsResult>
+        <IsTruncated>false</IsTruncated>
+        <Part><PartNumber>2</PartNumber><ETag>"etag-2"</ETag><Size>100</Size>
+          <LastModified>2025-01-02T03:04:06.000Z</LastModified></Part>
+      </ListPartsResult>`,
+    };
+    await withFakeFetch(
+      (request) => new Response(pages[request.url.searchParams.get("part-number-marker") ?? ""]),
+      async (requests) => {
+        const parts = await Array.fromAsync(client.listParts("big.bin", { uploadId: "upload-1", pageSize: 1 }));
+        assertEquals(parts, [
+          { partNumber: 1, etag: "etag-1", size: 5242880, lastModified: new Date("2025-01-02T03:04:05.000Z") },
+          { partNumber: 2, etag: "etag-2", size: 100, lastModified: new Date("2025-01-02T03:04:06.000Z") },
+        ]);
+        assertEquals(requests.length, 2);
+        assertEquals(requests[0].url.searchParams.get("max-parts"), "1");
+        assertEquals(requests[1].url.searchParams.get("uploadId"), "upload-1");
+      },
+    );
+  },
+});
+
+Deno.test({
+  name: "listParts() and listMultipartUploads() validate pageSize",
+  fn: async () => {
+    await withFakeFetch(() => new Response(null, { status: 500 }), async (requests) => {
+      for (const pageSize of [0, 1_001, 1.5, NaN]) {
+        await assertRejects(
+          () => Array.fromAsync(client.listParts("big.bin", { uploadId: "upload-1", pageSize })),
+          errors.InvalidArgumentError,
+        );
+        await assertRejects(
+          () => Array.fromAsync(client.listMultipartUploads({ pageSize })),
+          errors.InvalidArgumentError,
+        );
+      }
+      assertEquals(requests.length, 0);
+    });
+  },
+});
+
+Deno.test({
+  name: "listMultipartUploads() handles pagination",
+  fn: async () => {
+    const pages: Record<string, string> = {
+      "": `<ListMultipartUploadsResult>
+        <IsTruncated>true</IsTruncated>
+        <NextKeyMarker>logs/a.txt</NextKeyMarker>
+        <NextUploadIdMarker>upload-a</NextUploadIdMarker>
+        <Upload><Key>logs/a.txt</Key><UploadId>upload-a</UploadId><Initiated>2025-01-02T03:04:05.000Z</Initiated></Upload>
+      </ListMultipartUploadsResult>`,
+      "logs/a.txt": `<ListMultipartUploadsResult>
+        <IsTruncated>false</IsTruncated>
+        <Upload><Key>logs/b.txt</Key><UploadId>upload-b</UploadId><Initiated>2025-01-02T03:04:06.000Z</Initiated></Upload>
+      </ListMultipartUploadsResult>`,
+    };
+    await withFakeFetch(
+      (request) => new Response(pages[request.url.searchParams.get("key-marker") ?? ""]),
+      async (requests) => {
+        const uploads = await Array.fromAsync(client.listMultipartUploads({ prefix: "logs/" }));
+        assertEquals(uploads, [
+          { key: "logs/a.txt", uploadId: "upload-a", initiated: new Date("2025-01-02T03:04:05.000Z") },
+          { key: "logs/b.txt", uploadId: "upload-b", initiated: new Date("2025-01-02T03:04:06.000Z") },
+        ]);
+        assertEquals(requests[0].url.pathname, "/test-bucket/");
+        assertEquals(requests[0].url.searchParams.get("prefix"), "logs/");
+        assertEquals(requests[1].url.searchParams.get("upload-id-marker"), "upload-a");
+      },
+    );
+  },
+});
@@ -0,0 +1,361 @@
+/**
+ * @module
+ * The individual requests that make up a multi-part upload. `putObject()` uses these for large
+ * uploads, and they are also available as methods of `Client` for more control, e.g. to upload the
+ * parts of an object from several different processes.
+ * See https://docs.aws.amazon.com/AmazonS3/latest/userguide/mpuoverview.html
+ */
+
+import type { ChecksumAlgorithm } from "./checksums.ts";
+import type { Client, ObjectMetadata, UploadedObjectInfo, WriteConditions } from "./client.ts";
+import * as errors from "./errors.ts";
+import { conditionHeaders, encoder, getVersionId, sanitizeETag, type Uint8Array_ } from "./helpers.ts";
+import { childText, parse as parseXML, type Xml } from "./xml-parser.ts";
+
+/** The maximum number of parts in a multi-part upload. https://docs.aws.amazon.com/AmazonS3/latest/userguide/qfacts.html */
+export const maxParts = 10_000;
+
+/** Metadata headers that must be included in each part of a multi-part upload */
+const multipartTagAlongMetadataKeys = [
+  "x-amz-server-side-encryption-customer-algorithm",
+  "x-amz-server-side-encryption-customer-key",
+  "x-amz-server-side-encryption-customer-key-MD5",
+] as const;
+
+/** A part that has been uploaded; completing the upload requires the part number and ETag of each part. */
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  /** The checksum of the part, if the upload uses a `checksumAlgorithm` (also required to complete it) */
+  checksum?: string;
+}
+
+/** Details about a part of a multi-part upload, as returned by `listParts()` */
+export interface Part extends UploadedPart {
+  size: number;
+  lastModified: Date;
+}
+
+/** Details about a multi-part upload that is in progress, as returned by `listMultipartUploads()` */
+export interface MultipartUploadInfo {
+  key: string;
+  uploadId: string;
+  initiated: Date;
+}
+
+/** Start a new multi-part upload. */
+export async function createMultipartUpload(
+  options: {
+    client: Client;
+    bucketName: string;
+    objectName: string;
+    metadata?: ObjectMetadata;
+    /**
+     * Every part must then be uploaded with a checksum using this algorithm. With a CRC algorithm, the
+     * object gets a checksum of its whole contents; otherwise, a composite checksum of its parts.
+     */
+    checksumAlgorithm?: ChecksumAlgorithm;
+    signal?: AbortSignal;
+  },
+): Promise<{ uploadId: string }> {
+  const headers = new Headers(options.metadata);
+  if (options.checksumAlgorithm) {
+    const { supportsFullObjectChecksum } = await import("./checksums.ts");
+    headers.set("x-amz-checksum-algorithm", options.checksumAlgorithm);
+    headers.set(
+      "x-amz-checksum-type",
+      supportsFullObjectChecksum(options.checksumAlgorithm) ? "FULL_OBJECT" : "COMPOSITE",
+    );
+  }
+  const response = await options.client.makeRequest({
+    method: "POST",
+    bucketName: options.bucketName,
+    objectName: options.objectName,
+    query: "uploads",
+    headers,
+    returnBody: true,
+    signal: options.signal,
+  });
+  // Response is like:
+  // <InitiateMultipartUploadResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+  //   <Bucket>dev-bucket</Bucket>
+  //   <Key>test-32m.dat</Key>
+  //   <UploadId>422f976b-35e0-4a55-aca7-bf2d46277f93</UploadId>
+  // </InitiateMultipartUploadResult>
+  const responseText = await response.text();
+  const root = parseXML(responseText);
+  if (root?.name !== "InitiateMultipartUploadResult") {
+    throw new Error(`Unexpected response: ${responseText}`);
+  }
+  const uploadId = childText(root, "UploadId");
+  if (!uploadId) {
+    throw new Error(`Unable to get UploadId from response: ${responseText}`);
+  }
+  return { uploadId };
+}
+
+/**
+ * Upload one part of a multi-part upload.
+ *
+ * Every part except the last one must be at least 5MB. If the upload was created with
+ * server-side encryption using a customer-provided key, pass the same `metadata` here.
+ */
+export async function uploadPart(
+  { client, bucketName, objectName, uploadId, partNumber, payload, metadata, checksumAlgorithm, integrity, signal }: {
+    client: Client;
+    bucketName: string;
+    objectName: string;
+    uploadId: string;
+    partNumber: number;
+    payload: Uint8Array_ | string;
+    metadata?: ObjectMetadata;
+    /** Send a checksum of the part, which the server checks. Must match the upload's `checksumAlgorithm`. */
+    checksumAlgorithm?: ChecksumAlgorithm;
+    /** Send the `Content-MD5` of the part, which the server checks */
+    integrity?: "md5";
+    signal?: AbortSignal;
+  },
+): Promise<UploadedPart> {
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > maxParts) {
+    throw new errors.InvalidArgumentError(`partNumber must be an integer from 1 to ${maxParts}.`);
+  }
+  const headers = new Headers();
+  for (const key of multipartTagAlongMetadataKeys) {
+    const value = metadata?.[key];
+    if (value) {
+      headers.set(key, value);
+    }
+  }
+  const payloadBytes = typeof payload === "string" ? encoder.encode(payload) : payload;
+  let checksum: string | undefined;
+  if (checksumAlgorithm) {
+    const { checksumHeader, computeChecksum } = await import("./checksums.ts");
+    checksum = await computeChecksum(checksumAlgorithm, payloadBytes);
+    headers.set(checksumHeader(checksumAlgorithm), checksum);
+  }
+  if (integrity === "md5") {
+    const { contentMd5 } = await import("./checksums.ts");
+    headers.set("Content-MD5", contentMd5(payloadBytes));
+  }
+  const response = await client.makeRequest({
+    method: "PUT",
+    query: { partNumber: partNumber.toString(), uploadId },
+    headers,
+    bucketName,
+    objectName,
+    payload,
+    signal,
+  });
+  return {
+    partNumber,
+    etag: sanitizeETag(response.headers.get("etag") ?? undefined),
+    ...(checksum ? { checksum } : {}),
+  };
+}
+
+/** Complete a multi-part upload, combining the given parts into the final object. */
+export async function completeMultipartUpload(
+  { client, bucketName, objectName, uploadId, parts, conditions = {}, checksumAlgorithm, checksum, signal }: {
+    client: Client;
+    bucketName: string;
+    objectName: string;
+    uploadId: string;
+    parts: readonly UploadedPart[];
+    /** Only complete the upload if the object's current ETag matches (or doesn't match) these */
+    conditions?: WriteConditions;
+    /** The `checksumAlgorithm` that the upload was created with, if any */
+    checksumAlgorithm?: ChecksumAlgorithm;
+    /** The checksum of the whole object, for the server to check (only for CRC algorithms) */
+    checksum?: string;
+    signal?: AbortSignal;
+  },
+): Promise<UploadedObjectInfo> {
+  // The parts must be listed in order:
+  const sortedParts = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+  const checksums = checksumAlgorithm ? await import("./checksums.ts") : undefined;
+  const partChecksum = (p: UploadedPart) => {
+    if (!checksumAlgorithm || !checksums) return "";
+    if (!p.checksum) {
+      throw new errors.InvalidArgumentError(`Part ${p.partNumber} is missing its ${checksumAlgorithm} checksum.`);
+    }
+    const element = checksums.checksumElement(checksumAlgorithm);
+    return `<${element}>${p.checksum}</${element}>`;
+  };
+  const payload = `
+    <CompleteMultipartUpload xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+        ${
+    sortedParts.map((p) =>
+      `  <Part><PartNumber>${p.partNumber}</PartNumber><ETag>${p.etag}</ETag>${partChecksum(p)}</Part>`
+    ).join("\n")
+  }
+    </CompleteMultipartUpload>
+  `;
+  const headers = new Headers(conditionHeaders(conditions));
+  if (checksumAlgorithm && checksums && checksum) {
+    headers.set(checksums.checksumHeader(checksumAlgorithm), checksum);
+    headers.set("x-amz-checksum-type", "FULL_OBJECT");
+  }
+  const response = await client.makeRequest({
+    method: "POST",
+    bucketName,
+    objectName,
+    query: `uploadId=${encodeURIComponent(uploadId)}`,
+    headers,
+    payload: encoder.encode(payload),
+    returnBody: true,
+    signal,
+  });
+  const responseText = await response.text();
+  // Example response:
+  // <?xml version="1.0" encoding="UTF-8"?>
+  // <CompleteMultipartUploadResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+  //   <Location>http://localhost:9000/dev-bucket/test-32m.dat</Location>
+  //   <Bucket>dev-bucket</Bucket>
+  //   <Key>test-32m.dat</Key>
+  //   <ETag>&#34;4581589392ae60eafdb031f441858c7a-7&#34;</ETag>
+  // </CompleteMultipartUploadResult>
+  const root = parseXML(responseText);
+  if (root?.name !== "CompleteMultipartUploadResult") {
+    throw new Error(`Unexpected response: ${responseText}`);
+  }
+  const etagRaw = childText(root, "ETag");
+  if (!etagRaw) throw new Error(`Unable to get ETag from response: ${responseText}`);
+  const versionId = getVersionId(response.headers);
+  // The server's checksum of the object, which is a composite checksum for SHA algorithms:
+  const objectChecksum = checksumAlgorithm && checksums
+    ? childText(root, checksums.checksumElement(checksumAlgorithm)) ?? checksum
+    : undefined;
+  return {
+    etag: sanitizeETag(etagRaw),
+    versionId,
+    ...(objectChecksum ? { checksum: objectChecksum } : {}),
+  };
+}
+
+/** Abort a multipart upload, so that the server discards any parts that have been uploaded. */
+export async function abortMultipartUpload(
+  { client, bucketName, objectName, uploadId, signal }: {
+    client: Client;
+    bucketName: string;
+    objectName: string;
+    uploadId: string;
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  await client.makeRequest({
+    method: "DELETE",
+    bucketName,
+    objectName,
+    query: { uploadId },
+    statusCode: 204,
+    signal,
+  });
+}
+
+/** List the parts that have been uploaded so far, handling pagination transparently. */
+export async function* listParts(
+  { client, bucketName, objectName, uploadId, pageSize = 1_000, signal }: {
+    client: Client;
+    bucketName: string;
+    objectName: string;
+    uploadId: string;
+    pageSize?: number;
+    signal?: AbortSignal;
+  },
+): AsyncGenerator<Part, void, undefined> {
+  if (!(Number.isInteger(pageSize) && pageSize >= 1 && pageSize <= 1_000)) {
+    throw new errors.InvalidArgumentError("pageSize must be a whole number between 1 and 1,000.");
+  }
+  let partNumberMarker = "";
+  while (true) {
+    const response = await client.makeRequest({
+      method: "GET",
+      bucketName,
+      objectName,
+      query: {
+        uploadId,
+        "max-parts": String(pageSize),
+        ...(partNumberMarker ? { "part-number-marker": partNumberMarker } : {}),
+      },
+      returnBody: true,
+      signal,
+    });
+    // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_ListParts.html#API_ListParts_ResponseSyntax
+    const root = await parseListResponse(response, "ListPartsResult");
+    for (const partElement of root.children.filter((c) => c.name === "Part")) {
+      yield {
+        partNumber: parseInt(childText(partElement, "PartNumber") ?? "", 10),
+        etag: sanitizeETag(childText(partElement, "ETag") ?? ""),
+        size: parseInt(childText(partElement, "Size") ?? "", 10),
+        lastModified: new Date(childText(partElement, "LastModified") ?? "invalid"),
+      };
+    }
+    if (childText(root, "IsTruncated") !== "true") {
+      return;
+    }
+    partNumberMarker = childText(root, "NextPartNumberMarker") ?? "";
+    if (!partNumberMarker) {
+      throw new Error("Unexpectedly missing NextPartNumberMarker, but server said there are more results.");
+    }
+  }
+}
+
+/** List the multi-part uploads in a bucket that are in progress, handling pagination transparently. */
+export async function* listMultipartUploads(
+  { client, bucketName, prefix = "", pageSize = 1_000, signal }: {
+    client: Client;
+    bucketName: string;
+    prefix?: string;
+    pageSize?: number;
+    signal?: AbortSignal;
+  },
+): AsyncGenerator<MultipartUploadInfo, void, undefined> {
+  if (!(Number.isInteger(pageSize) && pageSize >= 1 && pageSize <= 1_000)) {
+    throw new errors.InvalidArgumentError("pageSize must be a whole number between 1 and 1,000.");
+  }
+  let keyMarker = "";
+  let uploadIdMarker = "";
+  while (true) {
+    const response = await client.makeRequest({
+      method: "GET",
+      bucketName,
+      objectName: "",
+      query: {
+        uploads: "",
+        prefix,
+        "max-uploads": String(pageSize),
+        ...(keyMarker ? { "key-marker": keyMarker } : {}),
+        ...(uploadIdMarker ? { "upload-id-marker": uploadIdMarker } : {}),
+      },
+      returnBody: true,
+      signal,
+    });
+    // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_ListMultipartUploads.html#API_ListMultipartUploads_ResponseSyntax
+    const root = await parseListResponse(response, "ListMultipartUploadsResult");
+    for (const uploadElement of root.children.filter((c) => c.name === "Upload")) {
+      yield {
+        key: childText(uploadElement, "Key") ?? "",
+        uploadId: childText(uploadElement, "UploadId") ?? "",
+        initiated: new Date(childText(uploadElement, "Initiated") ?? "invalid"),
+      };
+    }
+    if (childText(root, "IsTruncated") !== "true") {
+      return;
+    }
+    keyMarker = childText(root, "NextKeyMarker") ?? "";
+    uploadIdMarker = childText(root, "NextUploadIdMarker") ?? "";
+    if (!keyMarker) {
+      throw new Error("Unexpectedly missing NextKeyMarker, but server said there are more results.");
+    }
+  }
+}
+
+/** Parse the XML response to a list request, and check that its root element is `rootName`. */
+async function parseListResponse(response: Response, rootName: string): Promise<Xml> {
+  const responseText = await response.text();
+  const root = parseXML(responseText);
+  if (root?.name !== rootName) {
+    throw new Error(`Unexpected response: ${responseText}`);
+  }
+  return root;
+}
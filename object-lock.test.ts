@@ -0,0 +1,139 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import * as errors from "./errors.ts";
+import { testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+Deno.test({
+  name: "getObjectRetention() and putObjectRetention()",
+  fn: async () => {
+    await withFakeFetch(() =>
+      new Response(`<?xml version="1.0" encoding="UTF-8"?>
+        <Retention xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+          <Mode>GOVERNANCE</Mode><RetainUntilDate>2030-01-01T00:00:00.000Z</RetainUntilDate>
+        </Retention>`), async (requests) => {
+      assertEquals(await client.getObjectRetention("file.txt", { versionId: "v1" }), {
+        mode: "GOVERNANCE",
+        retainUntilDate: new Date("2030-01-01T00:00:00.000Z"),
+      });
+      assertEquals(requests[0].url.pathname, "/test-bucket/file.txt");
+      assertEquals(requests[0].url.searchParams.has("retention"), true);
+      assertEquals(requests[0].url.searchParams.get("versionId"), "v1");
+    });
+    await withFakeFetch(() =>
+      new Response(
+        `<Error><Code>NoSuchObjectLockConfiguration</Code><Message>No retention</Message></Error>`,
+        { status: 404 },
+      ), async () => {
+      assertEquals(await client.getObjectRetention("file.txt"), undefined);
+    });
+    await withFakeFetch(() => new Response(null), async (requests) => {
+      const retention = { mode: "COMPLIANCE", retainUntilDate: new Date("2031-06-01T00:00:00.000Z") } as const;
+      await client.putObjectRetention("file.txt", retention);
+      assertEquals(requests[0].method, "PUT");
+      assertEquals(requests[0].url.search, "?retention=");
+      assertEquals(
+        requests[0].body,
+        `<Retention xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Mode>COMPLIANCE</Mode>` +
+          `<RetainUntilDate>2031-06-01T00:00:00.000Z</RetainUntilDate></Retention>`,
+      );
+      assertEquals(requests[0].headers.has("x-amz-checksum-sha256"), true);
+      assertEquals(requests[0].headers.has("x-amz-bypass-governance-retention"), false);
+
+      await client.putObjectRetention("file.txt", retention, { versionId: "v1", governanceBypass: true });
+      assertEquals(requests[1].url.searchParams.get("versionId"), "v1");
+      assertEquals(requests[1].headers.get("x-amz-bypass-governance-retention"), "true");
+    });
+  },
+});
+
+Deno.test({
+  name: "getObjectLegalHold() and putObjectLegalHold()",
+  fn: async () => {
+    await withFakeFetch(() => new Response(`<LegalHold><Status>ON</Status></LegalHold>`), async (requests) => {
+      assertEquals(await client.getObjectLegalHold("file.txt"), true);
+      assertEquals(requests[0].url.searchParams.has("legal-hold"), true);
+    });
+    await withFakeFetch(() => new Response(`<LegalHold><Status>OFF</Status></LegalHold>`), async () => {
+      assertEquals(await client.getObjectLegalHold("file.txt"), false);
+    });
+    // An object that has never had a legal hold:
+    await withFakeFetch(() =>
+      new Response(
+        `<Error><Code>NoSuchObjectLockConfiguration</Code><Message>No legal hold</Message></Error>`,
+        { status: 404 },
+      ), async () => {
+      assertEquals(await client.getObjectLegalHold("file.txt"), false);
+    });
+    await withFakeFetch(() => new Response(null), async (requests) => {
+      await client.putObjectLegalHold("file.txt", false, { versionId: "v2" });
+      assertEquals(requests[0].method, "PUT");
+      assertEquals(requests[0].url.searchParams.get("versionId"), "v2");
+      assertEquals(
+        requests[0].body,
+        `<LegalHold xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Status>OFF</Status></LegalHold>`,
+      );
+    });
+  },
+});
+
+Deno.test({
+  name: "getObjectLockConfiguration() and putObjectLockConfiguration()",
+  fn: async () => {
+    await withFakeFetch(() =>
+      new Response(`<?xml version="1.0" encoding="UTF-8"?>
+        <ObjectLockConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+          <ObjectLockEnabled>Enabled</ObjectLockEnabled>
+          <Rule><DefaultRetention><Mode>GOVERNANCE</Mode><Days>30</Days></DefaultRetention></Rule>
+        </ObjectLockConfiguration>`), async (requests) => {
+      assertEquals(await client.getObjectLockConfiguration("test-bucket"), {
+        enabled: true,
+        defaultRetention: { mode: "GOVERNANCE", days: 30 },
+      });
+      assertEquals(requests[0].url.pathname, "/test-bucket/");
+      assertEquals(requests[0].url.search, "?object-lock");
+    });
+    await withFakeFetch(() =>
+      new Response(
+        `<Error><Code>ObjectLockConfigurationNotFoundError</Code><Message>Not found</Message></Error>`,
+        { status: 404 },
+      ), async () => {
+      assertEquals(await client.getObjectLockConfiguration("test-bucket"), { enabled: false });
+    });
+    await withFakeFetch(() => new Response(null), async (requests) => {
+      await client.putObjectLockConfiguration("test-bucket", {
+        enabled: true,
+        defaultRetention: { mode: "COMPLIANCE", years: 1 },
+      });
+      assertEquals(requests[0].method, "PUT");
+      assertEquals(
+        requests[0].body,
+        `<ObjectLockConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">` +
+          `<ObjectLockEnabled>Enabled</ObjectLockEnabled>` +
+          `<Rule><DefaultRetention><Mode>COMPLIANCE</Mode><Years>1</Years></DefaultRetention></Rule>` +
+          `</ObjectLockConfiguration>`,
+      );
+      assertEquals(requests[0].headers.has("x-amz-checksum-sha256"), true);
+    });
+    await withFakeFetch(() => new Response(null), async (requests) => {
+      await assertRejects(
+        () => client.putObjectLockConfiguration("test-bucket", { enabled: false }),
+        errors.InvalidArgumentError,
+      );
+      assertEquals(requests.length, 0);
+    });
+  },
+});
+
+Deno.test({
+  name: "makeBucket() can enable Object Lock",
+  fn: async () => {
+    await withFakeFetch(() => new Response(null), async (requests) => {
+      await client.makeBucket("locked-bucket", { objectLocking: true });
+      assertEquals(requests[0].url.pathname, "/locked-bucket/");
+      assertEquals(requests[0].headers.get("x-amz-bucket-object-lock-enabled"), "true");
+
+      await client.makeBucket("other-bucket");
+      assertEquals(requests[1].headers.has("x-amz-bucket-object-lock-enabled"), false);
+    });
+  },
+});
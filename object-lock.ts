@@ -0,0 +1,208 @@
+/**
+ * @module
+ * Object Lock, which prevents objects from being deleted or overwritten, either until a date
+ * (retention) or until the lock is removed (legal hold). Object Lock must be enabled when the
+ * bucket is created. See https://docs.aws.amazon.com/AmazonS3/latest/userguide/object-lock.html
+ */
+
+import { getConfig } from "./bucket-config.ts";
+import type { Client } from "./client.ts";
+import * as errors from "./errors.ts";
+import { child, childText, type Xml } from "./xml-parser.ts";
+
+/**
+ * "GOVERNANCE" retention can be shortened or removed by users with the `s3:BypassGovernanceRetention`
+ * permission; "COMPLIANCE" retention can't be shortened or removed by anyone.
+ */
+export type RetentionMode = "GOVERNANCE" | "COMPLIANCE";
+
+/** The retention of an object version: it can't be deleted or overwritten until `retainUntilDate` */
+export interface ObjectRetention {
+  mode: RetentionMode;
+  retainUntilDate: Date;
+}
+
+/** The Object Lock configuration of a bucket */
+export interface ObjectLockConfiguration {
+  /** Whether Object Lock is enabled for the bucket */
+  enabled: boolean;
+  /** The retention that new objects get by default. Give either `days` or `years`. */
+  defaultRetention?: { mode: RetentionMode; days?: number; years?: number };
+}
+
+/** Options for the requests about a specific object */
+interface ObjectOptions {
+  client: Client;
+  bucketName: string;
+  objectName: string;
+  versionId?: string;
+  signal?: AbortSignal;
+}
+
+/** Get the retention of an object version. Returns undefined if it has no retention. */
+export async function getObjectRetention(
+  { client, bucketName, objectName, versionId, signal }: ObjectOptions,
+): Promise<ObjectRetention | undefined> {
+  let root: Xml;
+  try {
+    // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_GetObjectRetention.html#API_GetObjectRetention_ResponseSyntax
+    root = await getConfig({
+      client,
+      bucketName,
+      objectName,
+      versionId,
+      subresource: "retention",
+      rootName: "Retention",
+      signal,
+    });
+  } catch (err) {
+    if (err instanceof errors.ServerError && err.code === "NoSuchObjectLockConfiguration") {
+      return undefined;
+    }
+    throw err;
+  }
+  return {
+    mode: childText(root, "Mode") as RetentionMode,
+    retainUntilDate: new Date(childText(root, "RetainUntilDate") ?? "invalid"),
+  };
+}
+
+/**
+ * Set the retention of an object version. Retention can always be extended, but shortening or
+ * removing "GOVERNANCE" retention requires `governanceBypass`.
+ */
+export async function putObjectRetention(
+  { client, bucketName, objectName, retention, versionId, governanceBypass, signal }: ObjectOptions & {
+    retention: ObjectRetention;
+    governanceBypass?: boolean;
+  },
+): Promise<void> {
+  const headers = new Headers();
+  if (governanceBypass) {
+    headers.set("X-Amz-Bypass-Governance-Retention", "true");
+  }
+  await client.makeRequest({
+    method: "PUT",
+    bucketName,
+    objectName,
+    query: { retention: "", ...(versionId ? { versionId } : {}) },
+    headers,
+    payload: `<Retention xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Mode>${retention.mode}</Mode>` +
+      `<RetainUntilDate>${retention.retainUntilDate.toISOString()}</RetainUntilDate></Retention>`,
+    checksumRequired: true,
+    signal,
+  });
+}
+
+/** Check whether an object version has a legal hold */
+export async function getObjectLegalHold(
+  { client, bucketName, objectName, versionId, signal }: ObjectOptions,
+): Promise<boolean> {
+  let root: Xml;
+  try {
+    // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_GetObjectLegalHold.html#API_GetObjectLegalHold_ResponseSyntax
+    root = await getConfig({
+      client,
+      bucketName,
+      objectName,
+      versionId,
+      subresource: "legal-hold",
+      rootName: "LegalHold",
+      signal,
+    });
+  } catch (err) {
+    // This is the error if the object has never had a legal hold.
+    if (err instanceof errors.ServerError && err.code === "NoSuchObjectLockConfiguration") {
+      return false;
+    }
+    throw err;
+  }
+  return childText(root, "Status") === "ON";
+}
+
+/** Place or remove a legal hold on an object version */
+export async function putObjectLegalHold(
+  { client, bucketName, objectName, legalHold, versionId, signal }: ObjectOptions & { legalHold: boolean },
+): Promise<void> {
+  await client.makeRequest({
+    method: "PUT",
+    bucketName,
+    objectName,
+    query: { "legal-hold": "", ...(versionId ? { versionId } : {}) },
+    payload: `<LegalHold xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Status>${
+      legalHold ? "ON" : "OFF"
+    }</Status></LegalHold>`,
+    checksumRequired: true,
+    signal,
+  });
+}
+
+/** Get the Object Lock configuration of a bucket */
+export async function getObjectLockConfiguration(
+  { client, bucketName, signal }: { client: Client; bucketName: string; signal?: AbortSignal },
+): Promise<ObjectLockConfiguration> {
+  let root: Xml;
+  try {
+    // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_GetObjectLockConfiguration.html#API_GetObjectLockConfiguration_ResponseSyntax
+    root = await getConfig({
+      client,
+      bucketName,
+      subresource: "object-lock",
+      rootName: "ObjectLockConfiguration",
+      signal,
+    });
+  } catch (err) {
+    if (err instanceof errors.ServerError && err.code === "ObjectLockConfigurationNotFoundError") {
+      return { enabled: false };
+    }
+    throw err;
+  }
+  const config: ObjectLockConfiguration = { enabled: childText(root, "ObjectLockEnabled") === "Enabled" };
+  const rule = child(root, "Rule");
+  const defaultRetention = rule && child(rule, "DefaultRetention");
+  if (defaultRetention) {
+    const days = childText(defaultRetention, "Days");
+    const years = childText(defaultRetention, "Years");
+    config.defaultRetention = {
+      mode: childText(defaultRetention, "Mode") as RetentionMode,
+      ...(days ? { days: parseInt(days, 10) } : {}),
+      ...(years ? { years: parseInt(years, 10) } : {}),
+    };
+  }
+  return config;
+}
+
+/**
+ * Set the default retention of new objects in a bucket (which must have Object Lock enabled). Object
+ * Lock can't be disabled once it's enabled, so `config.enabled` must be true.
+ */
+export async function putObjectLockConfiguration(
+  { client, bucketName, config, signal }: {
+    client: Client;
+    bucketName: string;
+    config: ObjectLockConfiguration;
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  if (!config.enabled) {
+    throw new errors.InvalidArgumentError("Object Lock can't be disabled once it's enabled, so enabled must be true.");
+  }
+  const { defaultRetention } = config;
+  const rule = defaultRetention
+    ? `<Rule><DefaultRetention><Mode>${defaultRetention.mode}</Mode>${
+      defaultRetention.days !== undefined ? `<Days>${defaultRetention.days}</Days>` : ""
+    }${
+      defaultRetention.years !== undefined ? `<Years>${defaultRetention.years}</Years>` : ""
+    }</DefaultRetention></Rule>`
+    : "";
+  await client.makeRequest({
+    method: "PUT",
+    bucketName,
+    objectName: "",
+    query: "object-lock",
+    payload: `<ObjectLockConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/">` +
+      `<ObjectLockEnabled>Enabled</ObjectLockEnabled>${rule}</ObjectLockConfiguration>`,
+    checksumRequired: true,
+    signal,
+  });
+}
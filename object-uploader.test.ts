@@ -1,18 +1,48 @@
 import { assert } from "@std/assert/assert";
 import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { md5Hex } from "./checksums.ts";
 import type { Client } from "./client.ts";
+import * as errors from "./errors.ts";
+import { MemoryBudget } from "./memory-budget.ts";
 import { ObjectUploader } from "./object-uploader.ts";
+import { TransformChunkSizes } from "./transform-chunk-sizes.ts";
+import { MemoryUploadStateStore } from "./upload-state.ts";
 
 /**
  * A fake Client that pretends to be an S3 server, so we can test the multi-part upload logic
  * without a real server. It records how many part uploads were in flight at the same time.
  */
-function makeFakeClient(partUploadDelayMs = 5) {
-  const state = { inFlight: 0, maxInFlight: 0, partsUploaded: [] as number[] };
+function makeFakeClient(
+  partUploadDelayMs = 5,
+  { failPartNumber, failAbort, existingParts = [] }: {
+    failPartNumber?: number;
+    failAbort?: boolean;
+    /** The data of each part the server already has, if we're resuming an upload of "fake-upload-id" */
+    existingParts?: Uint8Array[];
+  } = {},
+) {
+  const state = { inFlight: 0, maxInFlight: 0, partsUploaded: [] as number[], abortedUploadIds: [] as string[] };
   const client = {
     // deno-lint-ignore no-explicit-any
     async makeRequest(options: any): Promise<Response> {
-      if (options.query === undefined) {
+      if (options.method === "GET") {
+        // Listing the parts of an upload that is being resumed:
+        return new Response(
+          `<ListPartsResult><IsTruncated>false</IsTruncated>${
+            existingParts.map((data, i) =>
+              `<Part><PartNumber>${i + 1}</PartNumber><ETag>"${md5Hex(data)}"</ETag><Size>${data.length}</Size></Part>`
+            ).join("")
+          }</ListPartsResult>`,
+        );
+      } else if (options.method === "DELETE") {
+        // The multi-part upload is being aborted.
+        if (failAbort) {
+          throw new Error("abort failed");
+        }
+        state.abortedUploadIds.push(options.query.uploadId);
+        return new Response(null, { status: 204 });
+      } else if (options.query === undefined) {
         // A plain PUT: the whole object is being uploaded in a single request.
         return new Response(null, { headers: { etag: `"single-request-etag"` } });
       } else if (options.query === "uploads") {
@@ -28,8 +58,20 @@ function makeFakeClient(partUploadDelayMs = 5) {
       const partNumber = Number(options.query.partNumber);
       state.inFlight++;
       state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
-      await new Promise((resolve) => setTimeout(resolve, partUploadDelayMs));
-      state.inFlight--;
+      try {
+        await new Promise((resolve, reject) => {
+          const timer = setTimeout(resolve, partUploadDelayMs);
+          options.signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(options.signal.reason);
+          });
+        });
+      } finally {
+        state.inFlight--;
+      }
+      if (partNumber === failPartNumber) {
+        throw new Error(`part ${partNumber} failed`);
+      }
       state.partsUploaded.push(partNumber);
       return new Response(null, { headers: { etag: `"fake-etag-${partNumber}"` } });
     },
@@ -88,3 +130,241 @@ Deno.test({
     assertEquals(uploader.getResult().etag, "single-request-etag");
   },
 });
+
+Deno.test({
+  name: "Aborting an ObjectUploader stops the parts in flight and aborts the multi-part upload",
+  fn: async () => {
+    const { client, state } = makeFakeClient(60_000);
+    const controller = new AbortController();
+    const uploader = new ObjectUploader({
+      client,
+      bucketName: "test-bucket",
+      objectName: "test-key",
+      partSize: 10,
+      metadata: {},
+      signal: controller.signal,
+    });
+    const writer = uploader.getWriter();
+    await writer.write(new Uint8Array(10));
+    await writer.write(new Uint8Array(10));
+    assertEquals(state.inFlight, 2);
+
+    controller.abort();
+    await writer.abort(controller.signal.reason);
+
+    assertEquals(state.inFlight, 0);
+    assertEquals(state.partsUploaded, []);
+    assertEquals(state.abortedUploadIds, ["fake-upload-id"]);
+  },
+});
+
+Deno.test({
+  name: "ObjectUploader aborts the multi-part upload if a part fails",
+  fn: async () => {
+    const { client, state } = makeFakeClient(5, { failPartNumber: 2 });
+    const uploader = new ObjectUploader({
+      client,
+      bucketName: "test-bucket",
+      objectName: "test-key",
+      partSize: 10,
+      metadata: {},
+    });
+    const source = ReadableStream.from(Array.from({ length: 3 }, () => new Uint8Array(10)));
+    await assertRejects(() => source.pipeTo(uploader), Error, "part 2 failed");
+    assertEquals(state.abortedUploadIds, ["fake-upload-id"]);
+  },
+});
+
+Deno.test({
+  name: "ObjectUploader aborts the multi-part upload if the source stream fails",
+  fn: async () => {
+    const { client, state } = makeFakeClient();
+    const uploader = new ObjectUploader({
+      client,
+      bucketName: "test-bucket",
+      objectName: "test-key",
+      partSize: 10,
+      metadata: {},
+    });
+    let chunksSent = 0;
+    const source = new ReadableStream<Uint8Array<ArrayBuffer>>({
+      pull(controller) {
+        if (chunksSent++ < 2) {
+          controller.enqueue(new Uint8Array(10));
+        } else {
+          controller.error(new Error("source failed"));
+        }
+      },
+    });
+    await assertRejects(() => source.pipeTo(uploader), Error, "source failed");
+    assertEquals(state.abortedUploadIds, ["fake-upload-id"]);
+  },
+});
+
+Deno.test({
+  name: "ObjectUploader reports both errors if aborting the upload fails",
+  fn: async () => {
+    const { client } = makeFakeClient(5, { failPartNumber: 1, failAbort: true });
+    const uploader = new ObjectUploader({
+      client,
+      bucketName: "test-bucket",
+      objectName: "test-key",
+      partSize: 10,
+      metadata: {},
+    });
+    const source = ReadableStream.from([new Uint8Array(10)]);
+    const err = await assertRejects(() => source.pipeTo(uploader), errors.UploadAbortFailedError);
+    assertEquals((err.cause as Error).message, "part 1 failed");
+    assertEquals((err.abortError as Error).message, "abort failed");
+    assertEquals(err.uploadId, "fake-upload-id");
+  },
+});
+
+Deno.test({
+  name: "ObjectUploader can resume an interrupted upload using a state store",
+  fn: async () => {
+    const stateStore = new MemoryUploadStateStore();
+    const data = () => ReadableStream.from(Array.from({ length: 4 }, (_, i) => new Uint8Array(i < 3 ? 10 : 5)));
+    const options = { bucketName: "test-bucket", objectName: "test-key", partSize: 10, metadata: {}, stateStore };
+
+    // The first attempt fails, and the upload is NOT aborted, so that it can be resumed:
+    const first = makeFakeClient(5, { failPartNumber: 3 });
+    await assertRejects(() => data().pipeTo(new ObjectUploader({ client: first.client, ...options })));
+    assertEquals(first.state.abortedUploadIds, []);
+    assertEquals(await stateStore.get("test-bucket/test-key"), { uploadId: "fake-upload-id", partSize: 10 });
+
+    // The second attempt only uploads the parts the server doesn't have (part 2's upload was incomplete):
+    const second = makeFakeClient(5, { existingParts: [new Uint8Array(10), new Uint8Array(3)] });
+    const uploader = new ObjectUploader({ client: second.client, ...options });
+    await data().pipeTo(uploader);
+    assertEquals(second.state.partsUploaded.sort(), [2, 3, 4]);
+    assertEquals(uploader.getResult().etag, "fake-etag-20");
+    // Once the upload is complete, its state is removed:
+    assertEquals(await stateStore.get("test-bucket/test-key"), undefined);
+  },
+});
+
+Deno.test({
+  name: "ObjectUploader doesn't resume an upload that was started with a different checksum algorithm",
+  fn: async () => {
+    const stateStore = new MemoryUploadStateStore();
+    const data = () => ReadableStream.from(Array.from({ length: 4 }, (_, i) => new Uint8Array(i < 3 ? 10 : 5)));
+    const options = { bucketName: "test-bucket", objectName: "test-key", partSize: 10, metadata: {}, stateStore };
+
+    const first = makeFakeClient(5, { failPartNumber: 3 });
+    await assertRejects(() =>
+      data().pipeTo(new ObjectUploader({ client: first.client, ...options, checksumAlgorithm: "SHA256" }))
+    );
+    assertEquals(await stateStore.get("test-bucket/test-key"), {
+      uploadId: "fake-upload-id",
+      partSize: 10,
+      checksumAlgorithm: "SHA256",
+    });
+
+    // The parts the server has were uploaded with SHA-256 checksums, which this upload can't complete,
+    // so it aborts that upload, then starts a new one and uploads every part:
+    const second = makeFakeClient(5, { existingParts: [new Uint8Array(10), new Uint8Array(10)] });
+    await data().pipeTo(new ObjectUploader({ client: second.client, ...options, checksumAlgorithm: "CRC32" }));
+    assertEquals(second.state.abortedUploadIds, ["fake-upload-id"]);
+    assertEquals(second.state.partsUploaded.sort(), [1, 2, 3, 4]);
+  },
+});
+
+Deno.test({
+  name: "ObjectUploader uploads a part again when resuming if the data has changed",
+  fn: async () => {
+    const stateStore = new MemoryUploadStateStore();
+    await stateStore.set("test-bucket/test-key", { uploadId: "fake-upload-id", partSize: 10 });
+    const data = ReadableStream.from([new Uint8Array(10), new Uint8Array(10), new Uint8Array(5)]);
+
+    // The server has parts 1 and 2 of the right size, but part 2 has different data:
+    const { client, state } = makeFakeClient(5, {
+      existingParts: [new Uint8Array(10), new Uint8Array(10).fill(1)],
+    });
+    const options = { bucketName: "test-bucket", objectName: "test-key", partSize: 10, metadata: {}, stateStore };
+    await data.pipeTo(new ObjectUploader({ client, ...options }));
+    assertEquals(state.partsUploaded.sort(), [2, 3]);
+    assertEquals(state.abortedUploadIds, []);
+  },
+});
+
+Deno.test({
+  name: "Two uploads of the same object at once don't share a saved state",
+  fn: async () => {
+    const stateStore = new MemoryUploadStateStore();
+    const savedStates: unknown[] = [];
+    const originalSet = stateStore.set.bind(stateStore);
+    stateStore.set = (key, state) => {
+      savedStates.push(state);
+      return originalSet(key, state);
+    };
+    const data = () => ReadableStream.from(Array.from({ length: 3 }, () => new Uint8Array(10)));
+    const options = { bucketName: "test-bucket", objectName: "test-key", partSize: 10, metadata: {}, stateStore };
+
+    const first = makeFakeClient(20);
+    const firstUpload = data().pipeTo(new ObjectUploader({ client: first.client, ...options }));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    // The second upload fails while the first is still in progress. Its state was never saved, so it
+    // can't be resumed, and it's aborted instead of being left on the server:
+    const second = makeFakeClient(5, { failPartNumber: 2 });
+    await assertRejects(() => data().pipeTo(new ObjectUploader({ client: second.client, ...options })));
+    assertEquals(second.state.abortedUploadIds, ["fake-upload-id"]);
+
+    await firstUpload;
+    assertEquals(savedStates.length, 1);
+    assertEquals(await stateStore.get("test-bucket/test-key"), undefined);
+  },
+});
+
+Deno.test({
+  name: "ObjectUploader reports progress as each part is acknowledged",
+  fn: async () => {
+    const { client } = makeFakeClient();
+    const progress: { loaded: number; total?: number }[] = [];
+    const uploader = new ObjectUploader({
+      client,
+      bucketName: "test-bucket",
+      objectName: "test-key",
+      partSize: 10,
+      metadata: {},
+      size: 25,
+      onProgress: (p) => progress.push(p),
+    });
+    await ReadableStream.from([new Uint8Array(10), new Uint8Array(10), new Uint8Array(5)]).pipeTo(uploader);
+    // (The parts are uploaded in parallel, so they may be acknowledged in any order.)
+    assertEquals(progress.length, 3);
+    assertEquals(progress.at(-1), { loaded: 25, total: 25 });
+  },
+});
+
+Deno.test({
+  name: "ObjectUploader's concurrency can be changed, and a memory budget can be shared by several uploads",
+  fn: async () => {
+    const { client, state } = makeFakeClient();
+    const upload = async (options: { concurrency?: number; memoryBudget?: MemoryBudget }) => {
+      const chunker = new TransformChunkSizes(10, options.memoryBudget);
+      await ReadableStream.from(Array.from({ length: 25 }, () => new Uint8Array(4))).pipeThrough(chunker).pipeTo(
+        new ObjectUploader({
+          client,
+          bucketName: "test-bucket",
+          objectName: "test-key",
+          partSize: 10,
+          metadata: {},
+          concurrency: options.concurrency,
+          releaseChunk: chunker.release,
+        }),
+      );
+      chunker.releaseAll();
+    };
+
+    await upload({ concurrency: 1 });
+    assertEquals(state.maxInFlight, 1);
+
+    // Two uploads, which would each upload 4 parts at once, but the budget only allows 3 parts in total:
+    state.maxInFlight = 0;
+    const memoryBudget = new MemoryBudget(30);
+    await Promise.all([upload({ memoryBudget }), upload({ memoryBudget })]);
+    assertEquals(state.maxInFlight, 3);
+    assertEquals(memoryBudget.used, 0);
+  },
+});
@@ -1,23 +1,32 @@
-import type { Client, ObjectMetadata, UploadedObjectInfo } from "./client.ts";
-import { encoder, getVersionId, sanitizeETag, type Uint8Array_ } from "./helpers.ts";
-import { childText, parse as parseXML } from "./xml-parser.ts";
-
-// Metadata headers that must be included in each part of a multi-part upload
-const multipartTagAlongMetadataKeys = [
-  "x-amz-server-side-encryption-customer-algorithm",
-  "x-amz-server-side-encryption-customer-key",
-  "x-amz-server-side-encryption-customer-key-MD5",
-];
+import type { Checksum, ChecksumAlgorithm } from "./checksums.ts";
+import type { Client, UploadedObjectInfo, WriteConditions } from "./client.ts";
+import * as errors from "./errors.ts";
+import { bin2base64, conditionHeaders, getVersionId, sanitizeETag, type Uint8Array_ } from "./helpers.ts";
+import {
+  abortMultipartUpload,
+  completeMultipartUpload,
+  createMultipartUpload,
+  listParts,
+  maxParts,
+  type Part,
+  type UploadedPart,
+  uploadPart,
+} from "./multipart.ts";
+import type { ProgressCallback } from "./progress.ts";
+import type { UploadStateStore } from "./upload-state.ts";
 
 /**
- * How many parts of a multi-part upload we will upload in parallel. Each part in flight is held in
- * memory until the server has accepted it, so this puts an upper bound on how much memory an upload
- * can use (roughly this many times the part size).
+ * How many parts of a multi-part upload we upload in parallel by default. Each part in flight is
+ * held in memory until the server has accepted it, so this puts an upper bound on how much memory
+ * an upload can use (roughly this many times the part size).
  */
-const maxConcurrentParts = 4;
+export const defaultConcurrency = 4;
 
-/** The maximum number of parts in a multi-part upload. https://docs.aws.amazon.com/AmazonS3/latest/userguide/qfacts.html */
-const maxParts = 10_000;
+/**
+ * The keys of the resumable uploads in progress in this process, for each state store, so that two
+ * uploads of the same object at once don't share (and overwrite) a single saved state.
+ */
+const uploadsInProgress = new WeakMap<UploadStateStore, Set<string>>();
 
 /**
  * Upload an object using a single PUT request, and return the resulting object info.
@@ -26,23 +35,37 @@ const maxParts = 10_000;
  * that we don't need a multi-part upload.
  */
 export async function uploadSingleRequest(
-  { client, metadata, ...requestArgs }: {
+  { client, metadata, conditions = {}, checksumAlgorithm, integrity, ...requestArgs }: {
     client: Client;
     bucketName: string;
     objectName: string;
     metadata: Record<string, string>;
-    payload: Uint8Array_ | string;
+    conditions?: WriteConditions;
+    /** Send a checksum of the object, which the server checks and stores with it */
+    checksumAlgorithm?: ChecksumAlgorithm;
+    /** Send the `Content-MD5` of the object, which the server checks */
+    integrity?: "md5";
+    payload: Uint8Array_;
+    signal?: AbortSignal;
   },
 ): Promise<UploadedObjectInfo> {
-  const response = await client.makeRequest({
-    method: "PUT",
-    // Set user metadata as this is not a multipart upload. (makeRequest sets Content-Length for us.)
-    headers: new Headers(metadata),
-    ...requestArgs,
-  });
+  // Set user metadata as this is not a multipart upload. (makeRequest sets Content-Length for us.)
+  const headers = new Headers({ ...metadata, ...conditionHeaders(conditions) });
+  let checksum: string | undefined;
+  if (checksumAlgorithm) {
+    const { checksumHeader, computeChecksum } = await import("./checksums.ts");
+    checksum = await computeChecksum(checksumAlgorithm, requestArgs.payload);
+    headers.set(checksumHeader(checksumAlgorithm), checksum);
+  }
+  if (integrity === "md5") {
+    const { contentMd5 } = await import("./checksums.ts");
+    headers.set("Content-MD5", contentMd5(requestArgs.payload));
+  }
+  const response = await client.makeRequest({ method: "PUT", headers, ...requestArgs });
   return {
     etag: sanitizeETag(response.headers.get("etag") ?? undefined),
     versionId: getVersionId(response.headers),
+    ...(checksum ? { checksum } : {}),
   };
 }
 
@@ -57,40 +80,223 @@ export async function uploadSingleRequest(
  * as long as TransformChunkSizes was used first. Then this ObjectUploader
  * will decide based on the size of the first chunk whether it is doing a
  * single-request upload or a multi-part upload.
+ *
+ * If a multi-part upload fails (a part fails to upload, the source stream errors, or the stream is
+ * aborted), the upload is aborted on the server so that the parts already uploaded are discarded.
+ * If that fails too, the error is an `UploadAbortFailedError` which includes both errors.
+ *
+ * Unless a `stateStore` is given: then the state of a multi-part upload is saved there while it's in
+ * progress, and a failed upload is left on the server so that it can be resumed. Uploading the same
+ * object again with the same part size and checksum algorithm resumes it, skipping any parts that the
+ * server already has with the same data. (If the part size or checksum algorithm is different, the
+ * saved upload is aborted, and a new one is started.) If another upload of the same object with the
+ * same `stateStore` is already in progress in this process, this upload isn't saved there, and is
+ * aborted if it fails, as usual.
  */
 export class ObjectUploader extends WritableStream<Uint8Array_> {
   public readonly getResult: () => UploadedObjectInfo;
 
-  constructor({ client, bucketName, objectName, partSize, metadata }: {
+  constructor({
+    client,
+    bucketName,
+    objectName,
+    partSize,
+    metadata,
+    conditions,
+    checksumAlgorithm,
+    integrity,
+    signal,
+    stateStore,
+    size,
+    onProgress,
+    concurrency = defaultConcurrency,
+    releaseChunk,
+  }: {
     client: Client;
     bucketName: string;
     objectName: string;
     partSize: number;
     metadata: Record<string, string>;
+    /** Checked when the upload is completed (or uploaded in a single request) */
+    conditions?: WriteConditions;
+    /**
+     * Send a checksum of each part, and of the whole object when the upload is completed (for CRC
+     * algorithms; S3 only supports composite checksums of the parts for the others).
+     */
+    checksumAlgorithm?: ChecksumAlgorithm;
+    /** Send the `Content-MD5` of each part (or of the object, if it's uploaded in a single request) */
+    integrity?: "md5";
+    /** Stops the parts that are being uploaded. Pass the same signal to `pipeTo()` to abort the whole upload. */
+    signal?: AbortSignal;
+    /** Where to save the state of a multi-part upload, so that it can be resumed if it's interrupted. */
+    stateStore?: UploadStateStore;
+    /** The total size of the upload, if known. Only used for reporting progress. */
+    size?: number;
+    /**
+     * Called each time the server acknowledges a part (or the whole object, if it's uploaded in a single
+     * request). Only acknowledged bytes are reported, not bytes that have been sent but not acknowledged.
+     */
+    onProgress?: ProgressCallback;
+    /** How many parts to upload in parallel. Default: 4 */
+    concurrency?: number;
+    /**
+     * Called once a chunk is no longer needed, because its part has been uploaded (or has failed). Used
+     * to give back the memory that `TransformChunkSizes` took from the client's memory budget for it.
+     */
+    releaseChunk?: (chunk: Uint8Array_) => void;
   }) {
     let result: UploadedObjectInfo;
     let nextPartNumber = 1;
     let uploadId: string;
-    const etags: { part: number; etag: string }[] = [];
+    const uploadedParts: UploadedPart[] = [];
     /** If an error occurs during multi-part uploads, we temporarily store it here. */
     let multiUploadError: Error | undefined;
     /**
      * If doing a multi-part upload, this holds a promise for each part that is currently being
      * uploaded, so that we can upload several parts in parallel but never more than
-     * `maxConcurrentParts` at once. Each promise removes itself from the set once it has settled.
+     * `concurrency` at once. Each promise removes itself from the set once it has settled.
      */
     const partsInFlight = new Set<Promise<void>>();
+    /** Used to stop the parts in flight if the upload fails, as well as when `signal` is aborted. */
+    const partsController = new AbortController();
+    const partSignal = signal ? AbortSignal.any([signal, partsController.signal]) : partsController.signal;
+    let uploadAborted = false;
+    /** The key of this upload's state in `stateStore` */
+    const stateKey = `${bucketName}/${objectName}`;
+    /**
+     * `stateStore`, if this upload's state is saved there: it's not if another upload of the same
+     * object is already using it. Set when the multi-part upload starts.
+     */
+    let savedIn: UploadStateStore | undefined;
+    /** If we are resuming an upload, the parts that the server already has, by part number */
+    const previousParts = new Map<number, Part>();
+    /**
+     * The checksum of the whole object, computed as the chunks are written (in order). Set when the
+     * multi-part upload starts.
+     */
+    let objectChecksum: Checksum | undefined;
+    /** How many bytes the server has acknowledged so far */
+    let bytesUploaded = 0;
+    const reportProgress = (bytes: number) => {
+      bytesUploaded += bytes;
+      onProgress?.({ loaded: bytesUploaded, total: size });
+    };
+
+    /** Start a new multi-part upload, or resume the one saved in `stateStore` if there is one. */
+    const startUpload = async () => {
+      if (checksumAlgorithm) {
+        const { createChecksum, supportsFullObjectChecksum } = await import("./checksums.ts");
+        if (supportsFullObjectChecksum(checksumAlgorithm)) {
+          objectChecksum = createChecksum(checksumAlgorithm);
+        }
+      }
+      if (stateStore) {
+        const inProgress = uploadsInProgress.get(stateStore) ?? new Set<string>();
+        uploadsInProgress.set(stateStore, inProgress);
+        if (!inProgress.has(stateKey)) {
+          inProgress.add(stateKey);
+          savedIn = stateStore;
+        }
+      }
+      const savedState = await savedIn?.get(stateKey);
+      if (
+        savedState && (savedState.partSize !== partSize || savedState.checksumAlgorithm !== checksumAlgorithm)
+      ) {
+        // This upload can't use the parts of the saved one, so abort it rather than leave them on the server.
+        try {
+          await abortMultipartUpload({ client, bucketName, objectName, uploadId: savedState.uploadId, signal });
+        } catch (err) {
+          if (!(err instanceof errors.ServerError && err.code === "NoSuchUpload")) {
+            throw err;
+          }
+        }
+      } else if (savedState) {
+        try {
+          const parts = listParts({
+            client,
+            bucketName,
+            objectName,
+            uploadId: savedState.uploadId,
+            signal: partSignal,
+          });
+          for await (const part of parts) {
+            previousParts.set(part.partNumber, part);
+          }
+          uploadId = savedState.uploadId;
+          return;
+        } catch (err) {
+          if (!(err instanceof errors.ServerError && err.code === "NoSuchUpload")) {
+            throw err;
+          }
+          // The upload was completed or aborted since its state was saved, so start a new one.
+        }
+      }
+      uploadId = (await createMultipartUpload({
+        client,
+        bucketName,
+        objectName,
+        metadata,
+        checksumAlgorithm,
+        signal: partSignal,
+      })).uploadId;
+      await savedIn?.set(stateKey, { uploadId, partSize, ...(checksumAlgorithm ? { checksumAlgorithm } : {}) });
+    };
+    /** This upload is finished with its saved state, so another upload of the same object can use it. */
+    const releaseStateKey = () => {
+      if (savedIn) {
+        uploadsInProgress.get(savedIn)?.delete(stateKey);
+      }
+    };
+
+    /**
+     * The upload has failed because of `reason`: stop any parts in flight, then tell the server to
+     * discard the parts already uploaded, so that they don't keep taking up (billed) storage.
+     */
+    const abortUpload = async (reason: unknown) => {
+      partsController.abort(reason);
+      await Promise.all(partsInFlight);
+      releaseStateKey();
+      if (!uploadId || uploadAborted || savedIn) {
+        // (If there's a state store, we leave the upload on the server so that it can be resumed.)
+        return;
+      }
+      uploadAborted = true;
+      try {
+        // This deliberately doesn't use the signal, which may be the reason we're here.
+        await abortMultipartUpload({ client, bucketName, objectName, uploadId });
+      } catch (abortError) {
+        throw new errors.UploadAbortFailedError(
+          `The upload failed, and then aborting multi-part upload ${uploadId} failed too, so its parts may still ` +
+            `be stored on the server. Upload error: ${reason}. Abort error: ${abortError}`,
+          { cause: reason, abortError, uploadId },
+        );
+      }
+    };
 
     super({
       start() {}, // required
       async write(chunk, _controller) {
-        const method = "PUT";
         const partNumber = nextPartNumber++;
 
         try {
+          if (multiUploadError) {
+            // A part that we already started has failed, so there's no point uploading any more.
+            throw multiUploadError;
+          }
           // We are going to upload this file in a single part, because it's small enough
           if (partNumber == 1 && chunk.length < partSize) {
-            result = await uploadSingleRequest({ client, bucketName, objectName, metadata, payload: chunk });
+            result = await uploadSingleRequest({
+              client,
+              bucketName,
+              objectName,
+              metadata,
+              conditions,
+              checksumAlgorithm,
+              integrity,
+              payload: chunk,
+              signal,
+            }).finally(() => releaseChunk?.(chunk));
+            reportProgress(chunk.length);
             return;
           }
           if (partNumber > maxParts) {
@@ -102,54 +308,67 @@ export class ObjectUploader extends WritableStream<Uint8Array_> {
 
           /// If we get here, this is a streaming upload in multiple parts.
           if (partNumber === 1) {
-            uploadId = (await initiateNewMultipartUpload({
-              client,
-              bucketName,
-              objectName,
-              metadata,
-            })).uploadId;
+            await startUpload();
           }
-          // Upload the next part
-          const partHeaders: Record<string, string> = {
-            "Content-Length": String(chunk.length),
-          };
-          for (const key of multipartTagAlongMetadataKeys) {
-            const value = metadata[key];
-            if (value) {
-              partHeaders[key] = value;
-            }
+          objectChecksum?.update(chunk);
+          const previousPart = previousParts.get(partNumber);
+          const checksums = previousPart ? await import("./checksums.ts") : undefined;
+          if (
+            previousPart && checksums && previousPart.size === chunk.length &&
+            previousPart.etag === checksums.md5Hex(chunk)
+          ) {
+            // This part was already uploaded before the upload was interrupted, with the same data. (If
+            // the ETag isn't the part's MD5, because it's encrypted with SSE-C or SSE-KMS, we can't tell,
+            // so it's uploaded again.)
+            uploadedParts.push({
+              partNumber,
+              etag: previousPart.etag,
+              ...(checksumAlgorithm ? { checksum: await checksums.computeChecksum(checksumAlgorithm, chunk) } : {}),
+            });
+            releaseChunk?.(chunk);
+            reportProgress(chunk.length);
+            return;
           }
+          // Upload the next part.
           // We can't `await` the upload of this part now, because that will cause the uploads to
           // happen in series instead of parallel. But we don't want to let the promise
           // throw an exception when we haven't awaited it, because that can cause the
           // process to crash. So use .catch() to watch for errors and store them in
           // `multiUploadError` if they occur.
-          const partPromise: Promise<void> = client.makeRequest({
-            method,
-            query: { partNumber: partNumber.toString(), uploadId },
-            headers: new Headers(partHeaders),
-            bucketName: bucketName,
-            objectName: objectName,
+          const partPromise: Promise<void> = uploadPart({
+            client,
+            bucketName,
+            objectName,
+            uploadId,
+            partNumber,
             payload: chunk,
-          }).then((response) => {
+            metadata,
+            checksumAlgorithm,
+            integrity,
+            signal: partSignal,
+          }).then((part) => {
             // In order to aggregate the parts together, we need to collect the etags.
-            etags.push({ part: partNumber, etag: sanitizeETag(response.headers.get("etag") ?? undefined) });
+            uploadedParts.push(part);
+            reportProgress(chunk.length);
           }).catch((err) => {
             // An error occurred when uploading this one part:
             if (!multiUploadError) {
               multiUploadError = err;
             }
           }).finally(() => {
+            releaseChunk?.(chunk);
             partsInFlight.delete(partPromise);
           });
           partsInFlight.add(partPromise);
           // Don't start uploading the next part until one of the parts in flight has finished.
           // Without this, a large upload would read the whole stream into memory at once.
-          if (partsInFlight.size >= maxConcurrentParts) {
+          if (partsInFlight.size >= concurrency) {
             await Promise.race(partsInFlight);
           }
         } catch (err) {
-          // Throwing an error will make future writes to this sink fail.
+          // Throwing an error will make future writes to this sink fail, and neither close() nor
+          // abort() will be called, so this is our last chance to clean up.
+          await abortUpload(err);
           throw err;
         }
       },
@@ -157,16 +376,31 @@ export class ObjectUploader extends WritableStream<Uint8Array_> {
         if (result) {
           // This was already completed, in a single upload. Nothing more to do.
         } else if (uploadId) {
-          // Wait for all parts to finish uploading (or fail)
-          await Promise.all(partsInFlight);
-          if (multiUploadError) {
-            // One or more parts failed to upload:
-            throw multiUploadError;
+          try {
+            // Wait for all parts to finish uploading (or fail)
+            await Promise.all(partsInFlight);
+            if (multiUploadError) {
+              // One or more parts failed to upload:
+              throw multiUploadError;
+            }
+            // Complete the multi-part upload
+            result = await completeMultipartUpload({
+              client,
+              bucketName,
+              objectName,
+              uploadId,
+              parts: uploadedParts,
+              conditions,
+              checksumAlgorithm,
+              checksum: objectChecksum && bin2base64(objectChecksum.digest()),
+              signal,
+            });
+            await savedIn?.delete(stateKey);
+            releaseStateKey();
+          } catch (err) {
+            await abortUpload(err);
+            throw err;
           }
-          // Sort the etags (required)
-          etags.sort((a, b) => a.part > b.part ? 1 : -1);
-          // Complete the multi-part upload
-          result = await completeMultipartUpload({ client, bucketName, objectName, uploadId, etags });
         } else {
           // The stream closed without ever producing a chunk, so this is an empty object. S3
           // supports those, and this is what you get if you upload an empty string/Uint8Array.
@@ -175,10 +409,19 @@ export class ObjectUploader extends WritableStream<Uint8Array_> {
             bucketName,
             objectName,
             metadata,
+            conditions,
+            checksumAlgorithm,
+            integrity,
             payload: new Uint8Array(),
+            signal,
           });
+          reportProgress(0);
         }
       },
+      async abort(reason) {
+        // The upload was aborted, or the source stream failed.
+        await abortUpload(reason);
+      },
     });
     this.getResult = () => {
       if (result === undefined) {
@@ -188,85 +431,3 @@ export class ObjectUploader extends WritableStream<Uint8Array_> {
     };
   }
 }
-
-/** Initiate a new multipart upload request. */
-async function initiateNewMultipartUpload(
-  options: {
-    client: Client;
-    bucketName: string;
-    objectName: string;
-    metadata?: ObjectMetadata;
-  },
-): Promise<{ uploadId: string }> {
-  const method = "POST";
-  const headers = new Headers(options.metadata);
-  const query = "uploads";
-  const response = await options.client.makeRequest({
-    method,
-    bucketName: options.bucketName,
-    objectName: options.objectName,
-    query,
-    headers,
-    returnBody: true,
-  });
-  // Response is like:
-  // <InitiateMultipartUploadResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
-  //   <Bucket>dev-bucket</Bucket>
-  //   <Key>test-32m.dat</Key>
-  //   <UploadId>422f976b-35e0-4a55-aca7-bf2d46277f93</UploadId>
-  // </InitiateMultipartUploadResult>
-  const responseText = await response.text();
-  const root = parseXML(responseText);
-  if (root?.name !== "InitiateMultipartUploadResult") {
-    throw new Error(`Unexpected response: ${responseText}`);
-  }
-  const uploadId = childText(root, "UploadId");
-  if (!uploadId) {
-    throw new Error(`Unable to get UploadId from response: ${responseText}`);
-  }
-  return { uploadId };
-}
-
-async function completeMultipartUpload(
-  { client, bucketName, objectName, uploadId, etags }: {
-    client: Client;
-    bucketName: string;
-    objectName: string;
-    uploadId: string;
-    etags: { part: number; etag: string }[];
-  },
-): Promise<UploadedObjectInfo> {
-  const payload = `
-    <CompleteMultipartUpload xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
-        ${etags.map((et) => `  <Part><PartNumber>${et.part}</PartNumber><ETag>${et.etag}</ETag></Part>`).join("\n")}
-    </CompleteMultipartUpload>
-  `;
-  const response = await client.makeRequest({
-    method: "POST",
-    bucketName,
-    objectName,
-    query: `uploadId=${encodeURIComponent(uploadId)}`,
-    payload: encoder.encode(payload),
-    returnBody: true,
-  });
-  const responseText = await response.text();
-  // Example response:
-  // <?xml version="1.0" encoding="UTF-8"?>
-  // <CompleteMultipartUploadResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
-  //   <Location>http://localhost:9000/dev-bucket/test-32m.dat</Location>
-  //   <Bucket>dev-bucket</Bucket>
-  //   <Key>test-32m.dat</Key>
-  //   <ETag>&#34;4581589392ae60eafdb031f441858c7a-7&#34;</ETag>
-  // </CompleteMultipartUploadResult>
-  const root = parseXML(responseText);
-  if (root?.name !== "CompleteMultipartUploadResult") {
-    throw new Error(`Unexpected response: ${responseText}`);
-  }
-  const etagRaw = childText(root, "ETag");
-  if (!etagRaw) throw new Error(`Unable to get ETag from response: ${responseText}`);
-  const versionId = getVersionId(response.headers);
-  return {
-    etag: sanitizeETag(etagRaw),
-    versionId,
-  };
-}
@@ -0,0 +1,48 @@
+import { assertEquals } from "@std/assert/equals";
+import { type Progress, trackDownloadProgress } from "./progress.ts";
+import { testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+/** A response whose body arrives in the given chunks */
+function chunkedResponse(chunks: string[], headers?: HeadersInit) {
+  const encoder = new TextEncoder();
+  return new Response(ReadableStream.from(chunks.map((chunk) => encoder.encode(chunk))), { status: 206, headers });
+}
+
+Deno.test({
+  name: "trackDownloadProgress() reports progress as the body is read",
+  fn: async () => {
+    const progress: Progress[] = [];
+    const response = trackDownloadProgress(
+      chunkedResponse(["hello ", "world"], { "Content-Length": "11", "ETag": `"abc"` }),
+      (p) => progress.push(p),
+    );
+    // The response is otherwise unchanged:
+    assertEquals(response.status, 206);
+    assertEquals(response.headers.get("ETag"), `"abc"`);
+    // Nothing is reported until the body is read:
+    assertEquals(progress, []);
+    assertEquals(await response.text(), "hello world");
+    assertEquals(progress, [{ loaded: 6, total: 11 }, { loaded: 11, total: 11 }]);
+  },
+});
+
+Deno.test({
+  name: "trackDownloadProgress() works without a Content-Length",
+  fn: async () => {
+    const progress: Progress[] = [];
+    await trackDownloadProgress(chunkedResponse(["abc"]), (p) => progress.push(p)).arrayBuffer();
+    assertEquals(progress, [{ loaded: 3, total: undefined }]);
+  },
+});
+
+Deno.test({
+  name: "getObject() can report download progress",
+  fn: async () => {
+    await withFakeFetch(() => new Response("file contents", { headers: { "Content-Length": "13" } }), async () => {
+      const progress: Progress[] = [];
+      const response = await client.getObject("file.txt", { onProgress: (p) => progress.push(p) });
+      assertEquals(await response.text(), "file contents");
+      assertEquals(progress.at(-1), { loaded: 13, total: 13 });
+    });
+  },
+});
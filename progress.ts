@@ -0,0 +1,40 @@
+/**
+ * @module
+ * Progress reporting for uploads and downloads.
+ */
+
+/** How much of an upload or download has been done so far */
+export interface Progress {
+  /** The number of bytes transferred so far */
+  loaded: number;
+  /** The total number of bytes, if known */
+  total?: number;
+}
+
+/** A function that is called with the progress of an upload or download as it happens */
+export type ProgressCallback = (progress: Progress) => void;
+
+/**
+ * Wrap a response (e.g. from `getObject()`) so that `onProgress` is called as its body is read.
+ *
+ * The total is taken from the response's `Content-Length`, if it has one. Nothing is reported until
+ * the body is actually consumed, whether as a stream or with `.text()`, `.arrayBuffer()`, etc.
+ */
+export function trackDownloadProgress(response: Response, onProgress: ProgressCallback): Response {
+  if (!response.body) {
+    return response;
+  }
+  const contentLength = response.headers.get("Content-Length");
+  const total = contentLength ? parseInt(contentLength, 10) : undefined;
+  let loaded = 0;
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        loaded += chunk.byteLength;
+        onProgress({ loaded, total });
+      },
+    }),
+  );
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
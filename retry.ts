@@ -0,0 +1,76 @@
+import * as errors from "./errors.ts";
+
+/**
+ * How the client retries requests that fail for reasons that are likely to be temporary, such as a
+ * network error, a 5xx response, or being told to `SlowDown`.
+ */
+export interface RetryOptions {
+  /** The maximum number of attempts to make, including the first one. Use 1 to disable retries. Default: 3 */
+  maxAttempts?: number;
+  /**
+   * How long to wait before the first retry, in milliseconds. Each retry after that waits twice as
+   * long as the one before. Default: 100
+   */
+  baseDelayMs?: number;
+  /** The longest to ever wait between attempts, in milliseconds. Default: 20,000 */
+  maxDelayMs?: number;
+  /**
+   * Whether to wait a random amount of time between zero and the delay, instead of the full delay.
+   * This spreads out the retries from many clients that failed at the same moment. Default: true
+   */
+  jitter?: boolean;
+  /**
+   * The S3 error codes that are worth retrying. Responses with a 5xx status code are always retried,
+   * as are network errors and timeouts. Default: `defaultRetryableErrorCodes`
+   */
+  retryableErrorCodes?: readonly string[];
+}
+
+/** The S3 error codes that we retry by default */
+export const defaultRetryableErrorCodes: readonly string[] = [
+  "InternalError",
+  "RequestTimeout",
+  "ServiceUnavailable",
+  "SlowDown",
+  "Throttling",
+  "ThrottlingException",
+  "RequestThrottled",
+];
+
+export const defaultRetryOptions: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 20_000,
+  jitter: true,
+  retryableErrorCodes: defaultRetryableErrorCodes,
+};
+
+/** Should a request that failed with the given error be tried again? */
+export function isRetryableError(err: unknown, options: Required<RetryOptions>): boolean {
+  if (err instanceof errors.ServerError) {
+    return err.statusCode >= 500 || options.retryableErrorCodes.includes(err.code);
+  }
+  return err instanceof errors.RequestTimeoutError || err instanceof errors.NetworkError;
+}
+
+/** How long to wait before making the given attempt (where attempt 2 is the first retry) */
+export function retryDelayMs(attempt: number, options: Required<RetryOptions>): number {
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 2));
+  return options.jitter ? Math.random() * delay : delay;
+}
+
+/** Wait for the given number of milliseconds, or reject with the signal's reason if it is aborted first. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
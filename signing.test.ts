@@ -234,6 +234,21 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "presignPostV4 - includes the session token when using temporary credentials",
+  fn: async () => {
+    const { fields } = await presignPostV4({ ...presignPostBase, sessionToken: "the-session-token" });
+    assertEquals(fields["X-Amz-Security-Token"], "the-session-token");
+    // Like every other field, the token has to be covered by the policy:
+    const policyJson = new TextDecoder().decode(Uint8Array.from(atob(fields.policy), (c) => c.charCodeAt(0)));
+    assertStringIncludes(policyJson, `{"X-Amz-Security-Token":"the-session-token"}`);
+
+    // And without one, there's no such field:
+    const { fields: permanentFields } = await presignPostV4(presignPostBase);
+    assertEquals(permanentFields["X-Amz-Security-Token"], undefined);
+  },
+});
+
 Deno.test({
   name: "getHeadersToSign",
   fn: () => {
@@ -22,7 +22,10 @@ export async function signV4(request: {
   secretKey: string;
   region: string;
   date: Date;
+  /** The AWS service the request is for. Default: "s3" */
+  service?: string;
 }): Promise<string> {
+  const service = request.service ?? "s3";
   if (!request.accessKey) {
     throw new errors.AccessKeyRequiredError();
   }
@@ -49,16 +52,19 @@ export async function signV4(request: {
     canonicalRequest,
     request.date,
     request.region,
+    service,
   );
   const signingKey = await getSigningKey(
     request.date,
     request.region,
     request.secretKey,
+    service,
   );
   const credential = getCredential(
     request.accessKey,
     request.region,
     request.date,
+    service,
   );
   const signature = bin2hex(await sha256hmac(signingKey, stringToSign))
     .toLowerCase();
@@ -258,9 +264,10 @@ async function getStringToSign(
   canonicalRequest: string,
   requestDate: Date,
   region: string,
+  service = "s3",
 ): Promise<string> {
   const hash = await sha256digestHex(canonicalRequest);
-  const scope = getScope(region, requestDate);
+  const scope = getScope(region, requestDate, service);
   return [
     signV4Algorithm,
     makeDateLong(requestDate),
@@ -274,17 +281,18 @@ async function getSigningKey(
   date: Date,
   region: string,
   secretKey: string,
+  service = "s3",
 ): Promise<Uint8Array_> {
   const dateLine = makeDateShort(date);
   const hmac1 = await sha256hmac("AWS4" + secretKey, dateLine);
   const hmac2 = await sha256hmac(hmac1, region);
-  const hmac3 = await sha256hmac(hmac2, "s3");
+  const hmac3 = await sha256hmac(hmac2, service);
   return await sha256hmac(hmac3, "aws4_request");
 }
 
 /** generate a credential string  */
-function getCredential(accessKey: string, region: string, requestDate: Date) {
-  return `${accessKey}/${getScope(region, requestDate)}`;
+function getCredential(accessKey: string, region: string, requestDate: Date, service = "s3") {
+  return `${accessKey}/${getScope(region, requestDate, service)}`;
 }
 
 /**
@@ -326,6 +334,7 @@ export async function presignPostV4(request: {
   objectKey: string;
   accessKey: string;
   secretKey: string;
+  sessionToken?: string;
   region: string;
   date: Date;
   expirySeconds: number;
@@ -357,6 +366,9 @@ export async function presignPostV4(request: {
     "X-Amz-Credential": credential,
     "X-Amz-Date": iso8601Date,
   };
+  if (request.sessionToken) {
+    fields["X-Amz-Security-Token"] = request.sessionToken;
+  }
   for (const [name, value] of Object.entries(request.fields ?? {})) {
     if (name in fields) {
       throw new errors.InvalidArgumentError(`The "${name}" field cannot be passed in fields`);
@@ -0,0 +1,193 @@
+import { assert } from "@std/assert/assert";
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { assertStringIncludes } from "@std/assert/string-includes";
+import { assertThrows } from "@std/assert/throws";
+import * as errors from "./errors.ts";
+import { assumeRole, assumeRoleWithWebIdentity } from "./sts.ts";
+import { createTestClient, type FakeRequest, hangingResponse, withFakeFetch } from "./test-helpers.ts";
+
+/**
+ * Replace fetch() with a stub STS endpoint for the duration of `fn`. Each request gets a new set of
+ * credentials, which expire after `expiresInMs`. Requests to any other URL get an empty 204 response.
+ */
+async function withFakeSts(
+  fn: (requests: FakeRequest[]) => Promise<void>,
+  { expiresInMs = 60 * 60 * 1000, errorXml }: { expiresInMs?: number; errorXml?: string } = {},
+) {
+  let stsRequests = 0;
+  await withFakeFetch(({ url, body }) => {
+    if (!url.hostname.startsWith("sts.")) {
+      return new Response(null, { status: 204 });
+    }
+    if (errorXml) {
+      return new Response(errorXml, { status: 403 });
+    }
+    const action = new URLSearchParams(body).get("Action");
+    const n = ++stsRequests;
+    const expiration = new Date(Date.now() + expiresInMs).toISOString();
+    return new Response(`<?xml version="1.0" encoding="UTF-8"?>
+      <${action}Response xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+        <${action}Result>
+          <AssumedRoleUser><Arn>arn:aws:sts::123456789012:assumed-role/demo/session</Arn></AssumedRoleUser>
+          <Credentials>
+            <AccessKeyId>ASIA_TEMP_${n}</AccessKeyId>
+            <SecretAccessKey>temp-secret-${n}</SecretAccessKey>
+            <SessionToken>temp-token-${n}</SessionToken>
+            <Expiration>${expiration}</Expiration>
+          </Credentials>
+        </${action}Result>
+        <ResponseMetadata><RequestId>c6104cbe-af31-11e0-8154-cbc7ccf896c7</RequestId></ResponseMetadata>
+      </${action}Response>`);
+  }, fn);
+}
+
+Deno.test({
+  name: "assumeRole() calls STS with signed requests, and returns the temporary credentials",
+  fn: async () => {
+    await withFakeSts(async (requests) => {
+      const provider = assumeRole({
+        roleArn: "arn:aws:iam::123456789012:role/demo",
+        roleSessionName: "test-session",
+        durationSeconds: 900,
+        externalId: "external-id",
+        region: "eu-west-1",
+        credentials: { accessKey: "AKIA_SOURCE", secretKey: "source-secret", sessionToken: "source-token" },
+      });
+      const credentials = await provider();
+      assertEquals(credentials.accessKey, "ASIA_TEMP_1");
+      assertEquals(credentials.secretKey, "temp-secret-1");
+      assertEquals(credentials.sessionToken, "temp-token-1");
+      assert(credentials.expiration instanceof Date && credentials.expiration.getTime() > Date.now());
+
+      assertEquals(requests.length, 1);
+      const { url, headers, body } = requests[0];
+      assertEquals(url.href, "https://sts.eu-west-1.amazonaws.com/");
+      assertEquals(Object.fromEntries(new URLSearchParams(body)), {
+        Action: "AssumeRole",
+        Version: "2011-06-15",
+        RoleArn: "arn:aws:iam::123456789012:role/demo",
+        RoleSessionName: "test-session",
+        DurationSeconds: "900",
+        ExternalId: "external-id",
+      });
+      // The request is signed for the STS service, using the source credentials:
+      assertStringIncludes(headers.get("authorization") ?? "", "Credential=AKIA_SOURCE/");
+      assertStringIncludes(headers.get("authorization") ?? "", "/eu-west-1/sts/aws4_request");
+      assertEquals(headers.get("x-amz-security-token"), "source-token");
+    });
+  },
+});
+
+Deno.test({
+  name: "assumeRole() credentials are used by the client, and refreshed before they expire",
+  fn: async () => {
+    // These credentials expire within the refresh margin, so every request has to refresh them:
+    await withFakeSts(async (requests) => {
+      const client = createTestClient({
+        credentials: assumeRole({
+          roleArn: "arn:aws:iam::123456789012:role/demo",
+          credentials: () => Promise.resolve({ accessKey: "AKIA_SOURCE", secretKey: "source-secret" }),
+        }),
+      });
+      await client.deleteObject("file1.txt");
+      await client.deleteObject("file2.txt");
+      assertEquals(requests.map((r) => r.url.href), [
+        "https://sts.amazonaws.com/",
+        "https://s3.example.com/test-bucket/file1.txt",
+        "https://sts.amazonaws.com/",
+        "https://s3.example.com/test-bucket/file2.txt",
+      ]);
+      assertStringIncludes(requests[1].headers.get("authorization") ?? "", "Credential=ASIA_TEMP_1/");
+      assertEquals(requests[1].headers.get("x-amz-security-token"), "temp-token-1");
+      assertStringIncludes(requests[3].headers.get("authorization") ?? "", "Credential=ASIA_TEMP_2/");
+    }, { expiresInMs: 60 * 1000 });
+  },
+});
+
+Deno.test({
+  name: "assumeRoleWithWebIdentity() sends the token without signing the request",
+  fn: async () => {
+    await withFakeSts(async (requests) => {
+      let tokenCalls = 0;
+      const provider = assumeRoleWithWebIdentity({
+        roleArn: "arn:aws:iam::123456789012:role/web",
+        roleSessionName: "web-session",
+        endpoint: "https://sts.stub.example.com/custom-path",
+        webIdentityToken: () => Promise.resolve(`oidc-token-${++tokenCalls}`),
+      });
+      assertEquals((await provider()).accessKey, "ASIA_TEMP_1");
+      assertEquals((await provider()).accessKey, "ASIA_TEMP_2");
+
+      const params = requests.map((r) => new URLSearchParams(r.body));
+      assertEquals(requests[0].url.href, "https://sts.stub.example.com/custom-path");
+      assertEquals(requests[0].headers.get("authorization"), null);
+      assertEquals(params[0].get("Action"), "AssumeRoleWithWebIdentity");
+      assertEquals(params[0].get("WebIdentityToken"), "oidc-token-1");
+      // The token is fetched again each time, since it may have been rotated:
+      assertEquals(params[1].get("WebIdentityToken"), "oidc-token-2");
+    });
+
+    assertThrows(
+      () => assumeRoleWithWebIdentity({ roleArn: "arn" }),
+      errors.InvalidArgumentError,
+      "Exactly one of webIdentityToken or webIdentityTokenFile is required.",
+    );
+  },
+});
+
+Deno.test({
+  name: "STS errors are reported as a ServerError",
+  fn: async () => {
+    const errorXml = `<ErrorResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+      <Error>
+        <Type>Sender</Type>
+        <Code>AccessDenied</Code>
+        <Message>User is not authorized to perform: sts:AssumeRole</Message>
+      </Error>
+      <RequestId>4a3b7c1d-0000-0000-0000-000000000000</RequestId>
+    </ErrorResponse>`;
+    await withFakeSts(async () => {
+      const provider = assumeRole({ roleArn: "arn", credentials: { accessKey: "k", secretKey: "s" } });
+      const err = await assertRejects(provider, errors.ServerError);
+      assertEquals(err.statusCode, 403);
+      assertEquals(err.code, "AccessDenied");
+      assertEquals(err.message, "User is not authorized to perform: sts:AssumeRole");
+    }, { errorXml });
+  },
+});
+
+Deno.test({
+  name: "an STS response without credentials is an error that doesn't include the response",
+  fn: async () => {
+    await withFakeFetch(
+      () =>
+        new Response(`<AssumeRoleResponse><AssumeRoleResult><Credentials>
+          <SecretAccessKey>leaked-secret</SecretAccessKey>
+        </Credentials></AssumeRoleResult></AssumeRoleResponse>`),
+      async () => {
+        const provider = assumeRole({ roleArn: "arn", credentials: { accessKey: "k", secretKey: "s" } });
+        const err = await assertRejects(provider, Error, "no credentials found in the AssumeRole response");
+        assert(!err.message.includes("leaked-secret"));
+      },
+    );
+  },
+});
+
+Deno.test({
+  name: "STS requests time out, and can be aborted",
+  fn: async () => {
+    await withFakeFetch(hangingResponse, async (requests) => {
+      const provider = assumeRole({ roleArn: "arn", credentials: { accessKey: "k", secretKey: "s" }, timeoutMs: 10 });
+      const err = await assertRejects(provider, DOMException);
+      assertEquals(err.name, "TimeoutError");
+
+      const controller = new AbortController();
+      const abortable = assumeRoleWithWebIdentity({ roleArn: "arn", webIdentityToken: "t", signal: controller.signal });
+      const promise = abortable();
+      controller.abort(new Error("Shutting down"));
+      await assertRejects(() => promise, Error, "Shutting down");
+      assertEquals(requests.length, 2);
+    });
+  },
+});
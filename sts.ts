@@ -0,0 +1,206 @@
+/**
+ * @module
+ * Credential providers that get temporary credentials from the AWS Security Token Service (STS), or
+ * from any S3-compatible server that implements its API (such as MinIO).
+ * https://docs.aws.amazon.com/STS/latest/APIReference/welcome.html
+ */
+
+import { CredentialCache, type CredentialProvider, type Credentials } from "./credentials.ts";
+import * as errors from "./errors.ts";
+import { makeDateLong, readTextFile, sha256digestHex } from "./helpers.ts";
+import { signV4 } from "./signing.ts";
+import { childText, parse as parseXML, type Xml } from "./xml-parser.ts";
+
+const stsApiVersion = "2011-06-15";
+
+/** How long to wait for STS to respond, by default */
+const defaultTimeoutMs = 10_000;
+
+/** Options common to every STS request. */
+interface StsOptions {
+  /** The ARN of the role to assume, e.g. "arn:aws:iam::123456789012:role/demo" */
+  roleArn: string;
+  /** An identifier for the session, which shows up in logs. Default: "s3-lite-client-" + a timestamp */
+  roleSessionName?: string;
+  /** How long the credentials should last, in seconds. Default: decided by STS (usually one hour). */
+  durationSeconds?: number;
+  /** The region to call STS in. Default: "us-east-1" */
+  region?: string;
+  /**
+   * The full URL of the STS endpoint. Default: the global endpoint "https://sts.amazonaws.com", or the
+   * regional one if `region` is given. For MinIO, this is the same URL as the S3 endpoint.
+   */
+  endpoint?: string;
+  /** How long to wait for STS to respond, in milliseconds. Default: 10000 */
+  timeoutMs?: number;
+  /** A signal that aborts any STS request in progress, e.g. when shutting down. */
+  signal?: AbortSignal;
+}
+
+/** Options for `assumeRole()` */
+export interface AssumeRoleOptions extends StsOptions {
+  /** The credentials to call AssumeRole with. These are the credentials that are allowed to assume the role. */
+  credentials: Credentials | CredentialProvider;
+  /** The external ID, if the role's trust policy requires one. */
+  externalId?: string;
+  /** An inline session policy (JSON) to further restrict what the temporary credentials can do. */
+  policy?: string;
+}
+
+/** Options for `assumeRoleWithWebIdentity()` */
+export interface AssumeRoleWithWebIdentityOptions extends StsOptions {
+  /**
+   * The OpenID Connect token, or a function that returns it. Exactly one of this or
+   * `webIdentityTokenFile` must be given.
+   */
+  webIdentityToken?: string | (() => Promise<string>);
+  /**
+   * Path to a file that contains the token, such as the projected service account token that
+   * Kubernetes (EKS) provides in `AWS_WEB_IDENTITY_TOKEN_FILE`. It is re-read every time the
+   * credentials are refreshed, since the token itself gets rotated.
+   */
+  webIdentityTokenFile?: string;
+}
+
+/**
+ * A credential provider that calls STS `AssumeRole` to get temporary credentials for a role.
+ *
+ * Pass the result as the client's `credentials` option. The client caches the credentials, and calls
+ * AssumeRole again shortly before they expire.
+ */
+export function assumeRole(options: AssumeRoleOptions): CredentialProvider {
+  const sourceCredentials = typeof options.credentials === "function"
+    ? new CredentialCache(options.credentials)
+    : { get: () => Promise.resolve(options.credentials as Credentials) };
+  return async () => {
+    const credentials = await sourceCredentials.get();
+    return await callSts("AssumeRole", options, {
+      ...(options.externalId ? { ExternalId: options.externalId } : {}),
+      ...(options.policy ? { Policy: options.policy } : {}),
+    }, credentials);
+  };
+}
+
+/**
+ * A credential provider that calls STS `AssumeRoleWithWebIdentity` to exchange an OpenID Connect
+ * token (e.g. a Kubernetes service account token) for temporary credentials for a role. This request
+ * does not need any credentials of its own.
+ *
+ * Pass the result as the client's `credentials` option. The client caches the credentials, and calls
+ * AssumeRoleWithWebIdentity again shortly before they expire.
+ */
+export function assumeRoleWithWebIdentity(options: AssumeRoleWithWebIdentityOptions): CredentialProvider {
+  if ((options.webIdentityToken === undefined) === (options.webIdentityTokenFile === undefined)) {
+    throw new errors.InvalidArgumentError(`Exactly one of webIdentityToken or webIdentityTokenFile is required.`);
+  }
+  return async () => {
+    let token: string | undefined;
+    if (options.webIdentityTokenFile !== undefined) {
+      token = (await readTextFile(options.webIdentityTokenFile))?.trim();
+      if (!token) {
+        throw new errors.InvalidArgumentError(`Unable to read web identity token from ${options.webIdentityTokenFile}`);
+      }
+    } else {
+      token = typeof options.webIdentityToken === "function"
+        ? await options.webIdentityToken()
+        : options.webIdentityToken;
+    }
+    return await callSts("AssumeRoleWithWebIdentity", options, { WebIdentityToken: token ?? "" });
+  };
+}
+
+/**
+ * Make a request to the STS API and parse the credentials from its response. Signed if `credentials`
+ * are given, otherwise anonymous.
+ */
+async function callSts(
+  action: "AssumeRole" | "AssumeRoleWithWebIdentity",
+  options: StsOptions,
+  extraParams: Record<string, string>,
+  credentials?: Credentials,
+): Promise<Credentials> {
+  const region = options.region ?? "us-east-1";
+  const url = new URL(
+    options.endpoint ?? (options.region ? `https://sts.${options.region}.amazonaws.com` : "https://sts.amazonaws.com"),
+  );
+  const body = new URLSearchParams({
+    Action: action,
+    Version: stsApiVersion,
+    RoleArn: options.roleArn,
+    RoleSessionName: options.roleSessionName ?? `s3-lite-client-${Date.now()}`,
+    ...(options.durationSeconds ? { DurationSeconds: String(options.durationSeconds) } : {}),
+    ...extraParams,
+  }).toString();
+
+  const headers = new Headers({ "Content-Type": "application/x-www-form-urlencoded" });
+  if (credentials) {
+    const date = new Date();
+    headers.set("host", url.host);
+    headers.set("x-amz-date", makeDateLong(date));
+    headers.set("x-amz-content-sha256", await sha256digestHex(body));
+    if (credentials.sessionToken) {
+      headers.set("x-amz-security-token", credentials.sessionToken);
+    }
+    headers.set(
+      "authorization",
+      await signV4({
+        headers,
+        method: "POST",
+        path: url.pathname,
+        accessKey: credentials.accessKey,
+        secretKey: credentials.secretKey,
+        region,
+        date,
+        service: "sts",
+      }),
+    );
+  }
+
+  const timeoutSignal = AbortSignal.timeout(options.timeoutMs ?? defaultTimeoutMs);
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body,
+    signal: options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal,
+  });
+  const responseText = await response.text();
+  const root = parseXML(responseText);
+  if (response.status !== 200) {
+    // Errors look like <ErrorResponse><Error><Code>...</Code><Message>...</Message></Error></ErrorResponse>
+    const errorElement = root?.children.find((c) => c.name === "Error");
+    throw new errors.ServerError(
+      response.status,
+      (errorElement && childText(errorElement, "Code")) ?? "UnrecognizedError",
+      (errorElement && childText(errorElement, "Message")) ??
+        `Error: Unexpected response code ${response.status} ${response.statusText} from STS.`,
+    );
+  }
+  // Response is like:
+  // <AssumeRoleResponse xmlns="https://sts.amazonaws.com/doc/2011-06-15/">
+  //   <AssumeRoleResult>
+  //     <Credentials>
+  //       <AccessKeyId>ASIA...</AccessKeyId>
+  //       <SecretAccessKey>...</SecretAccessKey>
+  //       <SessionToken>...</SessionToken>
+  //       <Expiration>2024-01-01T12:00:00Z</Expiration>
+  //     </Credentials>
+  //     ...
+  //   </AssumeRoleResult>
+  // </AssumeRoleResponse>
+  const credentialsElement: Xml | undefined = root?.name === `${action}Response`
+    ? root.children.find((c) => c.name === `${action}Result`)?.children.find((c) => c.name === "Credentials")
+    : undefined;
+  const accessKey = credentialsElement && childText(credentialsElement, "AccessKeyId");
+  const secretKey = credentialsElement && childText(credentialsElement, "SecretAccessKey");
+  if (!credentialsElement || !accessKey || !secretKey) {
+    // Don't include the response in the error: it may contain credentials, which would end up in logs.
+    throw new Error(`Unexpected response from STS: no credentials found in the ${action} response.`);
+  }
+  const expiration = childText(credentialsElement, "Expiration");
+  return {
+    accessKey,
+    secretKey,
+    sessionToken: childText(credentialsElement, "SessionToken"),
+    expiration: expiration ? new Date(expiration) : undefined,
+  };
+}
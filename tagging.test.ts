@@ -0,0 +1,70 @@
+import { assertEquals } from "@std/assert/equals";
+import { encodeTagsHeader } from "./tagging.ts";
+import { testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+Deno.test({
+  name: "encodeTagsHeader()",
+  fn: () => {
+    assertEquals(encodeTagsHeader({ project: "apollo", "a b": "c&d=e" }), "project=apollo&a%20b=c%26d%3De");
+    assertEquals(encodeTagsHeader({}), "");
+  },
+});
+
+Deno.test({
+  name: "getObjectTagging(), putObjectTagging() and deleteObjectTagging()",
+  fn: async () => {
+    await withFakeFetch(() =>
+      new Response(`<?xml version="1.0" encoding="UTF-8"?>
+        <Tagging xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+          <TagSet>
+            <Tag><Key>project</Key><Value>apollo</Value></Tag>
+            <Tag><Key>a &amp; b</Key><Value></Value></Tag>
+          </TagSet>
+        </Tagging>`), async (requests) => {
+      assertEquals(await client.getObjectTagging("file.txt", { versionId: "v1" }), { project: "apollo", "a & b": "" });
+      assertEquals(requests[0].url.pathname, "/test-bucket/file.txt");
+      assertEquals(requests[0].url.searchParams.has("tagging"), true);
+      assertEquals(requests[0].url.searchParams.get("versionId"), "v1");
+    });
+    await withFakeFetch(() => new Response(null), async (requests) => {
+      await client.putObjectTagging("file.txt", { project: "apollo", "<x>": "y" });
+      assertEquals(requests[0].method, "PUT");
+      assertEquals(requests[0].url.search, "?tagging=");
+      assertEquals(
+        requests[0].body,
+        `<Tagging xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><TagSet>` +
+          `<Tag><Key>project</Key><Value>apollo</Value></Tag><Tag><Key>&lt;x&gt;</Key><Value>y</Value></Tag>` +
+          `</TagSet></Tagging>`,
+      );
+      assertEquals(requests[0].headers.has("x-amz-checksum-sha256"), true);
+    });
+    await withFakeFetch(() => new Response(null, { status: 204 }), async (requests) => {
+      await client.deleteObjectTagging("file.txt");
+      assertEquals(requests[0].method, "DELETE");
+      assertEquals(requests[0].url.searchParams.has("tagging"), true);
+    });
+  },
+});
+
+Deno.test({
+  name: "putObject() and copyObject() can set tags",
+  fn: async () => {
+    await withFakeFetch((request) =>
+      request.headers.has("x-amz-copy-source")
+        ? new Response(
+          `<CopyObjectResult><ETag>"etag"</ETag><LastModified>2025-01-01T00:00:00.000Z</LastModified></CopyObjectResult>`,
+        )
+        : new Response(null, { headers: { ETag: `"etag"` } }), async (requests) => {
+      await client.putObject("file.txt", "data", { tags: { project: "apollo", team: "a b" } });
+      assertEquals(requests[0].headers.get("x-amz-tagging"), "project=apollo&team=a%20b");
+
+      await client.copyObject({ sourceKey: "file.txt" }, "copy.txt", { tags: { copied: "yes" } });
+      assertEquals(requests[1].headers.get("x-amz-tagging"), "copied=yes");
+      assertEquals(requests[1].headers.get("x-amz-tagging-directive"), "REPLACE");
+
+      // Without tags, the tags of the source are kept:
+      await client.copyObject({ sourceKey: "file.txt" }, "copy.txt");
+      assertEquals(requests[2].headers.has("x-amz-tagging-directive"), false);
+    });
+  },
+});
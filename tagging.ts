@@ -0,0 +1,92 @@
+/**
+ * @module
+ * Object tags: key-value pairs attached to an object, which can be changed without uploading the
+ * object again. See https://docs.aws.amazon.com/AmazonS3/latest/userguide/object-tagging.html
+ */
+
+import { getConfig } from "./bucket-config.ts";
+import type { Client } from "./client.ts";
+import { escapeXml } from "./helpers.ts";
+import { child, childText } from "./xml-parser.ts";
+
+/** The tags of an object, e.g. `{ project: "apollo", classification: "internal" }` */
+export type Tags = Record<string, string>;
+
+/** Encode tags for the `x-amz-tagging` header, which sets the tags of an object when it's uploaded or copied. */
+export function encodeTagsHeader(tags: Tags): string {
+  return Object.entries(tags).map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join("&");
+}
+
+/** Get the tags of an object */
+export async function getObjectTagging(
+  { client, bucketName, objectName, versionId, signal }: {
+    client: Client;
+    bucketName: string;
+    objectName: string;
+    versionId?: string;
+    signal?: AbortSignal;
+  },
+): Promise<Tags> {
+  // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_GetObjectTagging.html#API_GetObjectTagging_ResponseSyntax
+  const root = await getConfig({
+    client,
+    bucketName,
+    objectName,
+    versionId,
+    subresource: "tagging",
+    rootName: "Tagging",
+    signal,
+  });
+  const tagElements = child(root, "TagSet")?.children ?? [];
+  return Object.fromEntries(
+    tagElements.filter((c) => c.name === "Tag").map((t) => [childText(t, "Key") ?? "", childText(t, "Value") ?? ""]),
+  );
+}
+
+/** Replace the tags of an object */
+export async function putObjectTagging(
+  { client, bucketName, objectName, tags, versionId, signal }: {
+    client: Client;
+    bucketName: string;
+    objectName: string;
+    tags: Tags;
+    versionId?: string;
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  const payload = `<Tagging xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><TagSet>${
+    Object.entries(tags).map(([key, value]) =>
+      `<Tag><Key>${escapeXml(key)}</Key><Value>${escapeXml(value)}</Value></Tag>`
+    ).join("")
+  }</TagSet></Tagging>`;
+  await client.makeRequest({
+    method: "PUT",
+    bucketName,
+    objectName,
+    query: { tagging: "", ...(versionId ? { versionId } : {}) },
+    payload,
+    checksumRequired: true,
+    signal,
+  });
+}
+
+/** Remove all the tags of an object */
+export async function deleteObjectTagging(
+  { client, bucketName, objectName, versionId, signal }: {
+    client: Client;
+    bucketName: string;
+    objectName: string;
+    versionId?: string;
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  await client.makeRequest({
+    method: "DELETE",
+    bucketName,
+    objectName,
+    query: { tagging: "", ...(versionId ? { versionId } : {}) },
+    statusCode: 204,
+    signal,
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * @module
+ * Helpers for the unit tests, which test the client against a fake `fetch()` instead of a real server.
+ */
+
+import { Client, type ClientOptions } from "./client.ts";
+
+/** A request that was made to the fake `fetch()` */
+export interface FakeRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  /** The body of the request, decoded as text */
+  body: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Replace fetch() with `handler` for the duration of `fn`, recording every request. If `handler`
+ * throws or rejects, so does the fake `fetch()`.
+ */
+export async function withFakeFetch(
+  handler: (request: FakeRequest) => Response | Promise<Response>,
+  fn: (requests: FakeRequest[]) => Promise<void>,
+): Promise<void> {
+  const requests: FakeRequest[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const body = init?.body;
+    const request = {
+      method: init?.method ?? "GET",
+      url: new URL(input instanceof Request ? input.url : String(input)),
+      headers: new Headers(init?.headers),
+      body: typeof body === "string" ? body : body ? new TextDecoder().decode(body as Uint8Array) : "",
+      signal: init?.signal ?? undefined,
+    };
+    requests.push(request);
+    return await handler(request);
+  }) as typeof globalThis.fetch;
+  try {
+    await fn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+/**
+ * A response from a server that never responds. Like the real `fetch()`, it rejects with the
+ * signal's reason when the request is aborted.
+ */
+export function hangingResponse(request: FakeRequest): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    request.signal?.throwIfAborted();
+    request.signal?.addEventListener("abort", () => reject(request.signal?.reason));
+  });
+}
+
+/**
+ * A client for the tests that use `withFakeFetch()`, with fixed credentials and a default bucket.
+ * `options` override the defaults; the fixed credentials aren't used if `options.credentials` is given.
+ */
+export function createTestClient(options: Partial<ClientOptions> = {}): Client {
+  return new Client({
+    endPoint: "https://s3.example.com",
+    region: "us-east-1",
+    bucket: "test-bucket",
+    ...(options.credentials ? {} : { accessKey: "AKIA_TEST", secretKey: "secret" }),
+    ...options,
+  });
+}
+
+/** The client from `createTestClient()`, for the tests that don't need any other options */
+export const testClient = createTestClient();
@@ -1,4 +1,5 @@
 import { assertEquals } from "@std/assert/equals";
+import { MemoryBudget } from "./memory-budget.ts";
 import { TransformChunkSizes } from "./transform-chunk-sizes.ts";
 
 /**
@@ -180,3 +181,34 @@ Deno.test({
     }
   },
 });
+
+Deno.test({
+  name: "TransformChunkSizes - takes the memory for each chunk from a budget before buffering it",
+  fn: async () => {
+    const budget = new MemoryBudget(8);
+    const transformer = new TransformChunkSizes(4, budget);
+    const reader = new NumberSource(0, 15).pipeThrough(transformer).getReader();
+
+    const first = await reader.read();
+    const second = await reader.read();
+    assertEquals([first.value, second.value], [UA(0, 1, 2, 3), UA(4, 5, 6, 7)]);
+    assertEquals(budget.used, 8);
+    // The budget is used up, so the third chunk isn't buffered until one of the others is released:
+    let thirdWasRead = false;
+    const third = reader.read().finally(() => thirdWasRead = true);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assertEquals(thirdWasRead, false);
+    transformer.release(first.value!);
+    assertEquals((await third).value, UA(8, 9, 10, 11));
+    transformer.release(second.value!);
+
+    // The last chunk only holds as much memory as it has data:
+    const last = await reader.read();
+    assertEquals(last.value, UA(12, 13, 14));
+    assertEquals(budget.used, 4 + 3);
+
+    // releaseAll() gives back the memory of any chunks that were never released:
+    transformer.releaseAll();
+    assertEquals(budget.used, 0);
+  },
+});
@@ -1,19 +1,59 @@
+import type { MemoryBudget } from "./memory-budget.ts";
+
 /**
  * This stream transform will buffer the data it receives until it has enough to form
  * a chunk of the specified size, then pass on the data in chunks of the specified size.
+ *
+ * If a `memoryBudget` is given, the memory for each chunk is taken from it before the chunk starts
+ * to be buffered, so while the budget is used up, no more data is read from the source stream.
+ * Whoever reads the chunks must give their memory back with `release()` once they're done with them.
  */
 export class TransformChunkSizes extends TransformStream<Uint8Array, Uint8Array> {
-  constructor(private readonly outChunkSize: number) {
+  /** Give back the memory of a chunk that this passed on. Does nothing if it has already been released. */
+  public readonly release: (chunk: Uint8Array) => void;
+  /**
+   * Give back all of the memory that this still holds, including for chunks that were passed on but
+   * not released, and stop waiting for more. Call this once the stream is finished with, whether or
+   * not it succeeded, so that the chunks that were never read don't keep using the budget.
+   */
+  public readonly releaseAll: () => void;
+
+  constructor(private readonly outChunkSize: number, memoryBudget?: MemoryBudget) {
     // We'll keep one internal buffer holding the partial chunk, plus a current "offset" telling us
     // how many bytes are in it. The buffer starts out empty and grows (up to outChunkSize) as data
     // arrives, so that a stream much smaller than outChunkSize doesn't allocate the full chunk size.
     let buffer = new Uint8Array(0);
     let offset = 0;
+    /** How many bytes were taken from `memoryBudget` for the partial chunk in `buffer` */
+    let heldForBuffer = 0;
+    /** The chunks that were passed on and haven't been released yet, with how many bytes each holds */
+    const heldForChunks = new Map<Uint8Array, number>();
+    /** Stops waiting for memory, when releaseAll() is called */
+    const budgetController = new AbortController();
+    /** Pass on a chunk, along with the memory that was taken for it */
+    const passOn = (out: Uint8Array, controller: TransformStreamDefaultController<Uint8Array>) => {
+      if (memoryBudget) {
+        memoryBudget.release(heldForBuffer - out.length);
+        heldForChunks.set(out, out.length);
+        heldForBuffer = 0;
+      }
+      controller.enqueue(out);
+    };
 
     super({
-      transform(chunk, controller) {
+      async transform(chunk, controller) {
         let pos = 0;
         while (pos < chunk.length) {
+          if (offset === 0 && memoryBudget) {
+            // Wait until there's enough memory for a whole chunk before we start buffering it.
+            await memoryBudget.acquire(outChunkSize, budgetController.signal);
+            if (budgetController.signal.aborted) {
+              // releaseAll() was called just as we got the memory, so give it straight back.
+              memoryBudget.release(outChunkSize);
+              budgetController.signal.throwIfAborted();
+            }
+            heldForBuffer = outChunkSize;
+          }
           // How many bytes remain to fill the buffer?
           const needed = outChunkSize - offset;
           // How many bytes we can copy from the incoming chunk this iteration
@@ -36,7 +76,7 @@ export class TransformChunkSizes extends TransformStream<Uint8Array, Uint8Array>
 
           // If we've filled a chunk, push it to the output, then reset
           if (offset === outChunkSize) {
-            controller.enqueue(buffer);
+            passOn(buffer, controller);
             // We must not reuse that buffer, because it's still being read by the controller.
             buffer = new Uint8Array(0);
             offset = 0;
@@ -46,9 +86,25 @@ export class TransformChunkSizes extends TransformStream<Uint8Array, Uint8Array>
       flush(controller) {
         // If anything remains in the buffer at the end, enqueue it.
         if (offset > 0) {
-          controller.enqueue(buffer.subarray(0, offset));
+          passOn(buffer.subarray(0, offset), controller);
         }
       },
     });
+
+    this.release = (chunk) => {
+      const bytes = heldForChunks.get(chunk);
+      if (bytes !== undefined) {
+        heldForChunks.delete(chunk);
+        memoryBudget?.release(bytes);
+      }
+    };
+    this.releaseAll = () => {
+      budgetController.abort();
+      for (const chunk of [...heldForChunks.keys()]) {
+        this.release(chunk);
+      }
+      memoryBudget?.release(heldForBuffer);
+      heldForBuffer = 0;
+    };
   }
 }
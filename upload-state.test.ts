@@ -0,0 +1,47 @@
+import { assertEquals } from "@std/assert/equals";
+import { JsonFileUploadStateStore, MemoryUploadStateStore } from "./upload-state.ts";
+
+Deno.test({
+  name: "MemoryUploadStateStore",
+  fn: async () => {
+    const store = new MemoryUploadStateStore();
+    assertEquals(await store.get("bucket/key"), undefined);
+    await store.set("bucket/key", { uploadId: "upload-1", partSize: 1024 });
+    assertEquals(await store.get("bucket/key"), { uploadId: "upload-1", partSize: 1024 });
+    await store.delete("bucket/key");
+    assertEquals(await store.get("bucket/key"), undefined);
+  },
+});
+
+Deno.test({
+  name: "JsonFileUploadStateStore keeps the state of every upload in one file",
+  fn: async () => {
+    const files: Record<string, string> = {};
+    const options = {
+      readFile: (path: string) => Promise.resolve(files[path]),
+      writeFile: async (path: string, data: string) => {
+        await new Promise((resolve) => setTimeout(resolve, 1)); // Writing takes a little while
+        files[path] = data;
+      },
+    };
+    const store = new JsonFileUploadStateStore("/tmp/uploads.json", options);
+    assertEquals(await store.get("bucket/a"), undefined);
+
+    // Concurrent changes don't overwrite each other:
+    await Promise.all([
+      store.set("bucket/a", { uploadId: "upload-a", partSize: 1024 }),
+      store.set("bucket/b", { uploadId: "upload-b", partSize: 2048 }),
+    ]);
+    assertEquals(JSON.parse(files["/tmp/uploads.json"]), {
+      "bucket/a": { uploadId: "upload-a", partSize: 1024 },
+      "bucket/b": { uploadId: "upload-b", partSize: 2048 },
+    });
+
+    // The state survives the process restarting, i.e. a new store reading the same file:
+    const newStore = new JsonFileUploadStateStore("/tmp/uploads.json", options);
+    assertEquals(await newStore.get("bucket/b"), { uploadId: "upload-b", partSize: 2048 });
+    await newStore.delete("bucket/b");
+    assertEquals(await store.get("bucket/b"), undefined);
+    assertEquals(await store.get("bucket/a"), { uploadId: "upload-a", partSize: 1024 });
+  },
+});
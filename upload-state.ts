@@ -0,0 +1,114 @@
+/**
+ * @module
+ * Stores for the state of multi-part uploads, so that an upload that was interrupted (e.g. because
+ * the process died) can be resumed instead of starting again from zero.
+ */
+
+import type { ChecksumAlgorithm } from "./checksums.ts";
+import { readTextFile, writeTextFile } from "./helpers.ts";
+
+/** What we need to remember about a multi-part upload in order to resume it */
+export interface UploadState {
+  uploadId: string;
+  /** The part size that the upload was started with. A resumed upload must use the same part size. */
+  partSize: number;
+  /**
+   * The checksum algorithm that the upload was started with, if any. A resumed upload must use the
+   * same algorithm, since the server checks every part against the one the upload was created with.
+   */
+  checksumAlgorithm?: ChecksumAlgorithm;
+}
+
+/**
+ * Somewhere to save the state of multi-part uploads while they are in progress. Pass one to
+ * `putObject()` as the `stateStore` option to make an upload resumable.
+ *
+ * Implement this interface to keep the state somewhere else, such as in a database.
+ */
+export interface UploadStateStore {
+  get(key: string): Promise<UploadState | undefined>;
+  set(key: string, state: UploadState): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps upload state in memory. The state doesn't survive the process exiting, but this still lets
+ * an upload be resumed after a network failure, by calling `putObject()` again.
+ */
+export class MemoryUploadStateStore implements UploadStateStore {
+  readonly #states = new Map<string, UploadState>();
+
+  get(key: string): Promise<UploadState | undefined> {
+    return Promise.resolve(this.#states.get(key));
+  }
+
+  set(key: string, state: UploadState): Promise<void> {
+    this.#states.set(key, { ...state });
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.#states.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/** Options for `JsonFileUploadStateStore` */
+export interface JsonFileUploadStateStoreOptions {
+  /**
+   * How to read the file; should return undefined if the file doesn't exist.
+   * Default: read it from the file system. Override this for runtimes without `node:fs`, or in tests.
+   */
+  readFile?: (path: string) => Promise<string | undefined>;
+  /** How to write the file. Default: write it to the file system. */
+  writeFile?: (path: string, data: string) => Promise<void>;
+}
+
+/**
+ * Keeps upload state in a JSON file, so that uploads can be resumed after the process restarts.
+ * The file holds the state of every upload in progress, and is created when it's first needed.
+ */
+export class JsonFileUploadStateStore implements UploadStateStore {
+  readonly #readFile: (path: string) => Promise<string | undefined>;
+  readonly #writeFile: (path: string, data: string) => Promise<void>;
+  /** Changes to the file are made one at a time, so that concurrent changes don't overwrite each other. */
+  #queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly path: string, options: JsonFileUploadStateStoreOptions = {}) {
+    this.#readFile = options.readFile ?? readTextFile;
+    this.#writeFile = options.writeFile ?? writeTextFile;
+  }
+
+  async get(key: string): Promise<UploadState | undefined> {
+    await this.#queue;
+    return (await this.#readAll())[key];
+  }
+
+  set(key: string, state: UploadState): Promise<void> {
+    return this.#update((states) => {
+      states[key] = state;
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.#update((states) => {
+      delete states[key];
+    });
+  }
+
+  async #readAll(): Promise<Record<string, UploadState>> {
+    const json = await this.#readFile(this.path);
+    return json ? JSON.parse(json) : {};
+  }
+
+  #update(change: (states: Record<string, UploadState>) => void): Promise<void> {
+    const result = this.#queue.then(async () => {
+      const states = await this.#readAll();
+      change(states);
+      await this.#writeFile(this.path, JSON.stringify(states, undefined, 2));
+    });
+    // Even if this change fails, the next one should still go ahead:
+    this.#queue = result.catch(() => {});
+    return result;
+  }
+}
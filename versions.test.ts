@@ -0,0 +1,122 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import * as errors from "./errors.ts";
+import { testClient as client, withFakeFetch } from "./test-helpers.ts";
+
+/** Two pages of a ListObjectVersions response, by key-marker */
+const pages: Record<string, string> = {
+  "": `<?xml version="1.0" encoding="UTF-8"?>
+    <ListVersionsResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+      <IsTruncated>true</IsTruncated>
+      <NextKeyMarker>a.txt</NextKeyMarker>
+      <NextVersionIdMarker>v1</NextVersionIdMarker>
+      <Version>
+        <Key>a.txt</Key><VersionId>v2</VersionId><IsLatest>true</IsLatest>
+        <LastModified>2025-01-02T00:00:00.000Z</LastModified><ETag>"etag-2"</ETag><Size>20</Size>
+      </Version>
+      <Version>
+        <Key>a.txt</Key><VersionId>v1</VersionId><IsLatest>false</IsLatest>
+        <LastModified>2025-01-01T00:00:00.000Z</LastModified><ETag>"etag-1"</ETag><Size>10</Size>
+      </Version>
+    </ListVersionsResult>`,
+  "a.txt": `<?xml version="1.0" encoding="UTF-8"?>
+    <ListVersionsResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
+      <IsTruncated>false</IsTruncated>
+      <Version>
+        <Key>c.txt</Key><VersionId>v4</VersionId><IsLatest>false</IsLatest>
+        <LastModified>2025-01-03T00:00:00.000Z</LastModified><ETag>"etag-4"</ETag><Size>40</Size>
+      </Version>
+      <DeleteMarker>
+        <Key>c.txt</Key><VersionId>v5</VersionId><IsLatest>true</IsLatest>
+        <LastModified>2025-01-04T00:00:00.000Z</LastModified>
+      </DeleteMarker>
+      <CommonPrefixes><Prefix>b/</Prefix></CommonPrefixes>
+    </ListVersionsResult>`,
+};
+
+Deno.test({
+  name: "listObjectVersions() lists versions, delete markers and common prefixes, across pages",
+  fn: async () => {
+    await withFakeFetch((request) => new Response(pages[request.url.searchParams.get("key-marker") ?? ""]), async (
+      requests,
+    ) => {
+      const results = await Array.fromAsync(client.listObjectVersions({ delimiter: "/", pageSize: 2 }));
+      assertEquals(results, [
+        {
+          type: "Version",
+          key: "a.txt",
+          versionId: "v2",
+          isLatest: true,
+          lastModified: new Date("2025-01-02T00:00:00.000Z"),
+          etag: "etag-2",
+          size: 20,
+        },
+        {
+          type: "Version",
+          key: "a.txt",
+          versionId: "v1",
+          isLatest: false,
+          lastModified: new Date("2025-01-01T00:00:00.000Z"),
+          etag: "etag-1",
+          size: 10,
+        },
+        // Common prefixes are put in order with the keys:
+        { type: "CommonPrefix", prefix: "b/" },
+        // The versions of a key stay in order, newest first, even with a delete marker among them:
+        {
+          type: "Version",
+          key: "c.txt",
+          versionId: "v4",
+          isLatest: false,
+          lastModified: new Date("2025-01-03T00:00:00.000Z"),
+          etag: "etag-4",
+          size: 40,
+        },
+        {
+          type: "DeleteMarker",
+          key: "c.txt",
+          versionId: "v5",
+          isLatest: true,
+          lastModified: new Date("2025-01-04T00:00:00.000Z"),
+        },
+      ]);
+      assertEquals(requests.length, 2);
+      assertEquals(requests[0].url.searchParams.has("versions"), true);
+      assertEquals(requests[0].url.searchParams.get("delimiter"), "/");
+      assertEquals(requests[0].url.searchParams.get("max-keys"), "2");
+      assertEquals(requests[1].url.searchParams.get("version-id-marker"), "v1");
+    });
+  },
+});
+
+Deno.test({
+  name: "listObjectVersions() returns the markers for the next page when it reaches maxResults",
+  fn: async () => {
+    await withFakeFetch((request) => new Response(pages[request.url.searchParams.get("key-marker") ?? ""]), async (
+      requests,
+    ) => {
+      const iterator = client.listObjectVersions({ maxResults: 2 });
+      let result: IteratorResult<unknown, unknown>;
+      let count = 0;
+      while (!(result = await iterator.next()).done) count++;
+      assertEquals(count, 2);
+      assertEquals(result.value, { keyMarker: "a.txt", versionIdMarker: "v1" });
+
+      // Then the next page can be retrieved with the markers:
+      const rest = await Array.fromAsync(client.listObjectVersions({ keyMarker: "a.txt", versionIdMarker: "v1" }));
+      assertEquals(rest.length, 3);
+      assertEquals(requests[1].url.searchParams.get("key-marker"), "a.txt");
+      assertEquals(requests[1].url.searchParams.get("version-id-marker"), "v1");
+    });
+  },
+});
+
+Deno.test({
+  name: "listObjectVersions() validates pageSize",
+  fn: async () => {
+    await assertRejects(
+      () => Array.fromAsync(client.listObjectVersions({ pageSize: 1_001 })),
+      errors.InvalidArgumentError,
+    );
+  },
+});
@@ -0,0 +1,145 @@
+/**
+ * @module
+ * Listing the versions of objects in a versioned bucket.
+ * See https://docs.aws.amazon.com/AmazonS3/latest/API/API_ListObjectVersions.html
+ */
+
+import type { Client, CommonPrefix } from "./client.ts";
+import * as errors from "./errors.ts";
+import { sanitizeETag } from "./helpers.ts";
+import { childText, parse as parseXML, type Xml } from "./xml-parser.ts";
+
+/** A version of an object, as returned by `listObjectVersions()` */
+export interface ObjectVersion {
+  type: "Version";
+  key: string;
+  versionId: string;
+  /** True if this is the current version of the object */
+  isLatest: boolean;
+  lastModified: Date;
+  etag: string;
+  size: number;
+}
+
+/**
+ * A delete marker, as returned by `listObjectVersions()`. Deleting an object in a versioned bucket
+ * (without specifying a version) creates a delete marker as its latest version.
+ */
+export interface DeleteMarker {
+  type: "DeleteMarker";
+  key: string;
+  versionId: string;
+  /** True if this is the current version of the object, i.e. the object is deleted */
+  isLatest: boolean;
+  lastModified: Date;
+}
+
+/** Where to carry on listing versions from, returned by `listObjectVersions()` if it stopped early */
+export interface VersionListMarkers {
+  keyMarker: string;
+  versionIdMarker: string;
+}
+
+/**
+ * List the versions and delete markers of the objects whose keys start with `prefix`, in order of
+ * key, and from newest to oldest for each key. If a `delimiter` is given, keys that contain it after
+ * the prefix are grouped into a `CommonPrefix` instead.
+ *
+ * If `maxResults` is reached, the generator returns the markers to pass back in as `keyMarker` and
+ * `versionIdMarker` to get the next page, like the continuation token of `listObjectsGrouped()`.
+ */
+export async function* listObjectVersions(
+  { client, bucketName, prefix = "", delimiter = "", pageSize = 1_000, maxResults, signal, ...options }: {
+    client: Client;
+    bucketName: string;
+    prefix?: string;
+    delimiter?: string;
+    /** Start listing after this key (and after `versionIdMarker`, if given) */
+    keyMarker?: string;
+    versionIdMarker?: string;
+    pageSize?: number;
+    maxResults?: number;
+    signal?: AbortSignal;
+  },
+): AsyncGenerator<ObjectVersion | DeleteMarker | CommonPrefix, VersionListMarkers | undefined, undefined> {
+  if (pageSize < 1 || pageSize > 1_000) {
+    throw new errors.InvalidArgumentError("pageSize must be between 1 and 1,000.");
+  }
+  let keyMarker = options.keyMarker ?? "";
+  let versionIdMarker = options.versionIdMarker ?? "";
+  let resultCount = 0;
+  while (true) {
+    const maxKeys = maxResults ? Math.min(pageSize, maxResults - resultCount) : pageSize;
+    if (maxKeys === 0) {
+      return;
+    }
+    const response = await client.makeRequest({
+      method: "GET",
+      bucketName,
+      objectName: "",
+      query: {
+        versions: "",
+        prefix,
+        delimiter,
+        "max-keys": String(maxKeys),
+        ...(keyMarker ? { "key-marker": keyMarker } : {}),
+        ...(versionIdMarker ? { "version-id-marker": versionIdMarker } : {}),
+      },
+      returnBody: true,
+      signal,
+    });
+    const responseText = await response.text();
+    // See https://docs.aws.amazon.com/AmazonS3/latest/API/API_ListObjectVersions.html#API_ListObjectVersions_ResponseSyntax
+    const root = parseXML(responseText);
+    if (root?.name !== "ListVersionsResult") {
+      throw new Error(`Unexpected response: ${responseText}`);
+    }
+    const toYield: Array<ObjectVersion | DeleteMarker | CommonPrefix> = [];
+    for (const element of root.children) {
+      if (element.name === "Version") {
+        toYield.push({
+          type: "Version",
+          ...parseCommonFields(element),
+          etag: sanitizeETag(childText(element, "ETag") ?? ""),
+          size: parseInt(childText(element, "Size") ?? "", 10),
+        });
+      } else if (element.name === "DeleteMarker") {
+        toYield.push({ type: "DeleteMarker", ...parseCommonFields(element) });
+      } else if (element.name === "CommonPrefixes") {
+        toYield.push({ type: "CommonPrefix", prefix: childText(element, "Prefix") ?? "" });
+      }
+    }
+    resultCount += toYield.length;
+    // Keep the results in alphabetical order, with the common prefixes mixed in, as `listObjectsGrouped()`
+    // does. The sort is stable, so the versions of each key stay in order from newest to oldest.
+    toYield.sort((a, b) => {
+      const aStr = a.type === "CommonPrefix" ? a.prefix : a.key;
+      const bStr = b.type === "CommonPrefix" ? b.prefix : b.key;
+      return aStr > bStr ? 1 : aStr < bStr ? -1 : 0;
+    });
+    for (const entry of toYield) {
+      yield entry;
+    }
+    if (childText(root, "IsTruncated") !== "true") {
+      return;
+    }
+    keyMarker = childText(root, "NextKeyMarker") ?? "";
+    versionIdMarker = childText(root, "NextVersionIdMarker") ?? "";
+    if (!keyMarker) {
+      throw new Error("Unexpectedly missing NextKeyMarker, but server said there are more results.");
+    }
+    if (maxResults && resultCount >= maxResults) {
+      return { keyMarker, versionIdMarker };
+    }
+  }
+}
+
+/** Parse the fields that versions and delete markers have in common */
+function parseCommonFields(element: Xml) {
+  return {
+    key: childText(element, "Key") ?? "",
+    versionId: childText(element, "VersionId") ?? "",
+    isLatest: childText(element, "IsLatest") === "true",
+    lastModified: new Date(childText(element, "LastModified") ?? "invalid"),
+  };
+}
@@ -1,5 +1,5 @@
 import { assertEquals } from "@std/assert/equals";
-import { childText, parse } from "./xml-parser.ts";
+import { child, children, childText, numberText, parse } from "./xml-parser.ts";
 
 const declaration = `<?xml version="1.0" encoding="UTF-8"?>`;
 
@@ -58,6 +58,23 @@ Deno.test({
   },
 });
 
+Deno.test({
+  name: "parse - quotes and character references",
+  fn: () => {
+    // Servers use these in keys that contain quotes:
+    assertEquals(parse(`<Key>&quot;a&apos; &#34;b&#39; &#x22;c</Key>`)?.content, `"a' "b' "c`);
+    assertEquals(parse(`<Key>&#x1F600;</Key>`)?.content, "\u{1F600}");
+    // Each entity is decoded once, so an escaped ampersand followed by "lt;" stays as text:
+    assertEquals(parse(`<Key>&amp;lt; &amp;#34;</Key>`)?.content, "&lt; &#34;");
+    // Attribute values are decoded too:
+    assertEquals(parse(`<Root a="&quot;x&quot;"/>`)?.attributes, { a: '"x"' });
+    // References to code points that don't exist are left alone, instead of failing to parse:
+    assertEquals(parse(`<Key>&#99999999;&#xFFFFFFFF;</Key>`)?.content, "&#99999999;&#xFFFFFFFF;");
+    // Unknown named entities are left alone too:
+    assertEquals(parse(`<Key>&nbsp;</Key>`)?.content, "&nbsp;");
+  },
+});
+
 Deno.test({
   name: "parse - malformed input never pulls content in from further along the document",
   fn: () => {
@@ -107,3 +124,16 @@ Deno.test({
     assertEquals(childText(dup, "Dup"), "1");
   },
 });
+
+Deno.test({
+  name: "child, children and numberText",
+  fn: () => {
+    const root = parse(`<Root><Item>1</Item><Other/><Item>2</Item><Count>42</Count></Root>`)!;
+    assertEquals(child(root, "Item")?.content, "1");
+    assertEquals(child(root, "Missing"), undefined);
+    assertEquals(children(root, "Item").map((c) => c.content), ["1", "2"]);
+    assertEquals(children(root, "Missing"), []);
+    assertEquals(numberText(root, "Count"), 42);
+    assertEquals(numberText(root, "Missing"), undefined);
+  },
+});
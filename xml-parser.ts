@@ -13,11 +13,33 @@ export interface Xml {
   children: Xml[];
 }
 
+/**
+ * Get the first child element with the given name, if there is one.
+ */
+export function child(node: Xml, name: string): Xml | undefined {
+  return node.children.find((c) => c.name === name);
+}
+
+/**
+ * Get all the child elements with the given name.
+ */
+export function children(node: Xml, name: string): Xml[] {
+  return node.children.filter((c) => c.name === name);
+}
+
 /**
  * Get the text content of the first child element with the given name, if there is one.
  */
 export function childText(node: Xml, name: string): string | undefined {
-  return node.children.find((c) => c.name === name)?.content;
+  return child(node, name)?.content;
+}
+
+/**
+ * Get the text content of the first child element with the given name as an integer, if there is one.
+ */
+export function numberText(node: Xml, name: string): number | undefined {
+  const text = childText(node, name);
+  return text === undefined ? undefined : parseInt(text, 10);
 }
 
 /**
@@ -102,9 +124,18 @@ export function parse(xml: string): Xml | undefined {
     return val.replace(/^['"]|['"]$/g, "");
   }
 
-  /** Basic handling of entities: &amp; &lt; &gt; */
+  /**
+   * Basic handling of entities: &amp; &lt; &gt; &quot; &apos; and character references like &#34;
+   * A character reference that isn't a valid code point is left as-is, rather than failing.
+   */
   function entities(val: string) {
-    return val.replaceAll("&lt;", "<").replaceAll("&gt;", ">").replaceAll("&amp;", "&");
+    return val.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (entity, name: string) => {
+      if (name.startsWith("#")) {
+        const codePoint = name.startsWith("#x") ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+      }
+      return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[name] ?? entity;
+    });
   }
 
   /**